@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { TestClock } from '../clock';
+import { NoopLogger } from '../logger';
+import { MemoryServer, connectMemory } from '../memory';
+
+describe('App', () => {
+  describe('shutdown', () => {
+    it('closes the connection past the deadline and does not wait for handlers stuck forever', async () => {
+      const clock = new TestClock();
+      const errors: unknown[] = [];
+      const app = await connectMemory('test', {
+        server: new MemoryServer({ clock }),
+        logger: new NoopLogger(),
+        uncaughtException: err => errors.push(err),
+      });
+      
+      const client = app.client();
+      const service = await client.service('s');
+      
+      // ignores the shutdown signal, so only the deadline gets past it
+      await service.method('stuck', async () => await new Promise<void>(() => {}));
+      
+      client.call('test.default.s.stuck', null).catch(() => {});
+      
+      await clock.advance(0);
+      
+      const shutdown = app.shutdown({ timeout: 1000 });
+      
+      await clock.advance(1000);
+      await clock.advance(1000);
+      
+      expect(await shutdown).toEqual({ forced: true });
+      expect(errors).toEqual([]);
+    });
+  });
+});
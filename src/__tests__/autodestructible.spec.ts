@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { type Destructible } from '../types';
+import { TestClock } from '../clock';
+import { Autodestructible, type UseOptions } from '../autodestructible';
+
+class Parent extends Autodestructible {
+  public add(destructible: Destructible, options?: UseOptions): void {
+    this.use(destructible, options);
+  }
+}
+
+describe('Autodestructible', () => {
+  it('gives up on a child past its timeout on the injected clock and goes on with the rest', async () => {
+    const clock = new TestClock();
+    const parent = new Parent(clock);
+    const destroyed: string[] = [];
+    
+    parent.add({ destroy: async () => { destroyed.push('first'); } });
+    parent.add({ destroy: async () => await new Promise<void>(() => {}) }, { timeout: 1000 });
+    
+    const destroy = parent.destroy();
+    const settled = expect(destroy).rejects.toMatchObject({
+      errors: [expect.objectContaining({ message: 'destroy timed out' })],
+    });
+    
+    await clock.advance(999);
+    
+    expect(destroyed).toEqual([]);
+    
+    await clock.advance(1);
+    await settled;
+    
+    expect(destroyed).toEqual(['first']);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { NoopLogger } from '../logger';
+import { connectMemory } from '../memory';
+
+describe('Backend', () => {
+  describe('call', () => {
+    it('does not send a call whose signal is already aborted', async () => {
+      const app = await connectMemory('test', { logger: new NoopLogger() });
+      const client = app.client();
+      const service = await client.service('s');
+      let calls = 0;
+      
+      await service.method('m', async ctx => {
+        calls++;
+        ctx.res.data = 'ok';
+      });
+      
+      const controller = new AbortController();
+      
+      controller.abort(new Error('cancelled'));
+      
+      await expect(client.call('test.default.s.m', null, { signal: controller.signal })).rejects.toThrow();
+      
+      // requests are handled in order, so the aborted one would have been
+      // counted by the time this one is answered
+      expect(await client.call('test.default.s.m', null)).toBe('ok');
+      expect(calls).toBe(1);
+      
+      await app.destroy();
+    });
+  });
+  
+  describe('signal', () => {
+    it('takes timers and spawned items off the app-wide signal once they are destroyed', async () => {
+      const app = await connectMemory('test', { logger: new NoopLogger() });
+      const signal = app.backend.signal;
+      const listeners = getEventListeners(signal, 'abort').length;
+      const spawner = await app.backend.spawner(async () => ({ destroy: async () => {} }));
+      
+      for (let i = 0; i < 20; i++) {
+        await spawner.spawnItem(`item${i}`, i);
+      }
+      
+      const timer = await app.backend.localTimer('timer', 1000, async () => {});
+      
+      expect(getEventListeners(signal, 'abort')).toHaveLength(listeners + 21);
+      
+      await timer.destroy();
+      await spawner.destroy();
+      
+      expect(getEventListeners(signal, 'abort')).toHaveLength(listeners);
+      
+      await app.destroy();
+    });
+    
+    it('links requests to the service instead of to the app-wide signal', async () => {
+      const app = await connectMemory('test', { logger: new NoopLogger() });
+      const client = app.client();
+      const service = await client.service('s');
+      const signal = app.backend.signal;
+      const listeners = getEventListeners(signal, 'abort').length;
+      let during = 0;
+      
+      await service.method('m', async ctx => {
+        during = getEventListeners(signal, 'abort').length;
+        ctx.res.data = 'ok';
+      });
+      
+      expect(await client.call('test.default.s.m', null)).toBe('ok');
+      expect(during).toBe(listeners);
+      
+      await app.destroy();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { StringCodec } from 'nats';
+import { type MetricLabels, type Metrics } from '../metrics';
+import { OvernatsLeaseLostError } from '../errors';
+import { TestClock } from '../clock';
+import { NoopLogger } from '../logger';
+import { MemoryServer, connectMemory } from '../memory';
+
+type Observation = {
+  name: string;
+  value: number;
+  labels?: MetricLabels;
+};
+
+class RecordingMetrics implements Metrics {
+  public observations: Observation[] = [];
+  
+  public increment(name: string, labels?: MetricLabels, value = 1): void {
+    this.observations.push({ name, value, labels });
+  }
+  
+  public observe(name: string, value: number, labels?: MetricLabels): void {
+    this.observations.push({ name, value, labels });
+  }
+}
+
+function deferred(): [Promise<void>, () => void] {
+  let resolve: () => void = () => {};
+  
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  
+  return [promise, resolve];
+}
+
+async function setup() {
+  const clock = new TestClock();
+  const server = new MemoryServer({ clock });
+  const metrics = new RecordingMetrics();
+  const app = await connectMemory('test', {
+    server,
+    metrics,
+    logger: new NoopLogger(),
+    options: { lockTimeout: 3000 },
+  });
+  
+  return { clock, server, metrics, app, client: app.client() };
+}
+
+describe('Bucket', () => {
+  describe('locks', () => {
+    it('lets a waiting writer in before readers that came after it', async () => {
+      const { clock, app, client } = await setup();
+      const trail: string[] = [];
+      const [released, release] = deferred();
+      
+      const first = client.readLock('k', async () => {
+        trail.push('first reader');
+        await released;
+      });
+      
+      await clock.advance(0);
+      
+      const writer = client.writeLock('k', async () => {
+        trail.push('writer');
+      }, { timeout: 10_000 });
+      
+      await clock.advance(100);
+      
+      const second = client.readLock('k', async () => {
+        trail.push('second reader');
+      }, { timeout: 10_000 });
+      
+      await clock.advance(1000);
+      
+      expect(trail).toEqual(['first reader']);
+      
+      release();
+      
+      await clock.advance(5000);
+      await Promise.all([first, writer, second]);
+      
+      expect(trail).toEqual(['first reader', 'writer', 'second reader']);
+      
+      await app.destroy();
+    });
+    
+    it('counts the writer wait until the readers are done', async () => {
+      const { clock, metrics, app, client } = await setup();
+      const [released, release] = deferred();
+      
+      const reader = client.readLock('k', async () => await released);
+      
+      await clock.advance(0);
+      
+      const writer = client.writeLock('k', async () => {}, { timeout: 10_000 });
+      
+      await clock.advance(2000);
+      release();
+      await clock.advance(1000);
+      await Promise.all([reader, writer]);
+      
+      const waits = metrics.observations.filter(({ name }) => name == 'bucket_lock_wait_seconds');
+      
+      expect(waits).toHaveLength(2);
+      expect(waits[1].value).toBeGreaterThanOrEqual(2);
+      
+      await app.destroy();
+    });
+    
+    it('waits for the readers to drain without a timeout once the writer is in', async () => {
+      const { clock, app, client } = await setup();
+      const [released, release] = deferred();
+      
+      let written = false;
+      
+      const reader = client.readLock('k', async () => await released);
+      
+      await clock.advance(0);
+      
+      const writer = client.writeLock('k', async () => {
+        written = true;
+      });
+      
+      await clock.advance(5000);
+      
+      expect(written).toBe(false);
+      
+      release();
+      
+      await clock.advance(2000);
+      await Promise.all([reader, writer]);
+      
+      expect(written).toBe(true);
+      
+      await app.destroy();
+    });
+    
+    it('keeps the records of read/write locks apart from the keys of plain locks', async () => {
+      const { clock, app, client } = await setup();
+      
+      let locked = false;
+      
+      const writer = client.writeLock('k', async () => {
+        await client.lock('k.write', async () => {
+          locked = true;
+        });
+      });
+      
+      await clock.advance(0);
+      await writer;
+      
+      expect(locked).toBe(true);
+      await expect(app.backend.locks.lock('_overnats.rw.k.write', async () => {})).rejects.toThrow('reserved lock key');
+      
+      await app.destroy();
+    });
+    
+    it('aborts the holder and fails the lock once someone else takes the key', async () => {
+      const { clock, server, metrics, app, client } = await setup();
+      const kv = await server.connect().jetstream().views.kv('locks');
+      
+      let aborted: unknown;
+      
+      const lock = client.lock('k', async lease => {
+        await new Promise<void>(resolve => {
+          lease.signal.addEventListener('abort', () => {
+            aborted = lease.signal.reason;
+            resolve();
+          });
+        });
+      });
+      const failed = expect(lock).rejects.toBeInstanceOf(OvernatsLeaseLostError);
+      
+      await clock.advance(0);
+      await kv.put('app.test.default.k', StringCodec().encode('{}'));
+      await clock.advance(1000);
+      await failed;
+      
+      expect(aborted).toBeInstanceOf(OvernatsLeaseLostError);
+      expect(metrics.observations).toContainEqual({
+        name: 'bucket_lease_lost_total',
+        value: 1,
+        labels: { bucket: 'locks' },
+      });
+      
+      await app.destroy();
+    });
+  });
+});
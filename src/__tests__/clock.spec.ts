@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { TestClock } from '../clock';
+
+describe('TestClock', () => {
+  it('fires the timers due within an advance in order and at their own time', async () => {
+    const clock = new TestClock(1000);
+    const fired: [string, number][] = [];
+    
+    clock.setTimeout(() => fired.push(['late', clock.now()]), 300);
+    clock.setTimeout(() => fired.push(['early', clock.now()]), 100);
+    clock.setTimeout(() => fired.push(['same', clock.now()]), 100);
+    clock.setTimeout(() => fired.push(['later', clock.now()]), 1000);
+    
+    await clock.advance(500);
+    
+    expect(fired).toEqual([['early', 1100], ['same', 1100], ['late', 1300]]);
+    expect(clock.now()).toBe(1500);
+    expect(clock.pending).toBe(1);
+  });
+  
+  it('picks up timers scheduled by callbacks and their promise chains within the same advance', async () => {
+    const clock = new TestClock();
+    const fired: number[] = [];
+    
+    clock.setTimeout(() => {
+      Promise.resolve().then(() => {
+        clock.setTimeout(() => fired.push(clock.now()), 100);
+      });
+    }, 100);
+    
+    await clock.advance(200);
+    
+    expect(fired).toEqual([200]);
+  });
+  
+  it('skips cleared timers', async () => {
+    const clock = new TestClock();
+    let fired = false;
+    
+    clock.clearTimeout(clock.setTimeout(() => {
+      fired = true;
+    }, 100));
+    
+    await clock.advance(1000);
+    
+    expect(fired).toBe(false);
+    expect(clock.pending).toBe(0);
+  });
+  
+  it('jumps to the next timer and stays put without any', async () => {
+    const clock = new TestClock();
+    const fired: number[] = [];
+    
+    clock.setTimeout(() => fired.push(clock.now()), 700);
+    clock.setTimeout(() => fired.push(clock.now()), 900);
+    
+    await clock.next();
+    
+    expect(fired).toEqual([700]);
+    expect(clock.now()).toBe(700);
+    
+    await clock.next();
+    await clock.next();
+    
+    expect(fired).toEqual([700, 900]);
+    expect(clock.now()).toBe(900);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { headers as natsHeaders } from 'nats';
+import { CODEC_HEADER, JsonCodec, MsgpackCodec, RawCodec, Codecs } from '../codec';
+
+describe('codecs', () => {
+  it('round-trips json values and leaves empty payloads undefined', () => {
+    const codec = new JsonCodec();
+    const value = { a: 1, b: ['x', null], c: { d: true } };
+    
+    expect(codec.decode(codec.encode(value))).toEqual(value);
+    expect(codec.encode(undefined)).toHaveLength(0);
+    expect(codec.decode(new Uint8Array(0))).toBeUndefined();
+  });
+  
+  it('round-trips maps, sets and bigints through msgpack', () => {
+    const codec = new MsgpackCodec();
+    const value = {
+      map: new Map<unknown, unknown>([['a', 1], [2, new Set(['b'])]]),
+      set: new Set([1, 2, 3]),
+      big: 2n ** 70n,
+    };
+    
+    expect(codec.decode(codec.encode(value))).toEqual(value);
+  });
+  
+  it('passes bytes through raw and refuses anything else', () => {
+    const codec = new RawCodec();
+    const bytes = new Uint8Array([0, 1, 255]);
+    
+    expect(codec.decode(codec.encode(bytes))).toBe(bytes);
+    expect(codec.encode(undefined)).toHaveLength(0);
+    expect(() => codec.encode('text')).toThrow('raw codec can only encode bytes');
+  });
+});
+
+describe('Codecs', () => {
+  it('names the codec in the headers and decodes by it, falling back to json', () => {
+    const sender = new Codecs({ codec: new MsgpackCodec() });
+    const receiver = new Codecs();
+    const headers = natsHeaders();
+    const data = sender.encode(new Set([1]), headers);
+    
+    expect(headers.get(CODEC_HEADER)).toBe('msgpack');
+    expect(receiver.decode(data, headers)).toEqual(new Set([1]));
+    expect(receiver.decode(new JsonCodec().encode({ a: 1 }))).toEqual({ a: 1 });
+    expect(receiver.decode(new JsonCodec().encode({ a: 1 }), natsHeaders())).toEqual({ a: 1 });
+  });
+  
+  it('rejects payloads named after an unknown codec', () => {
+    const headers = natsHeaders();
+    headers.set(CODEC_HEADER, 'yaml');
+    
+    expect(() => new Codecs().decode(new Uint8Array(0), headers)).toThrow('unknown codec');
+  });
+  
+  it('frames kv values of other codecs and keeps json values plain', () => {
+    const framed = new Codecs({ codec: new MsgpackCodec() });
+    const plain = new Codecs();
+    const value = new Map([['a', 1n]]);
+    
+    const data = framed.encodeFramed(value);
+    
+    expect(data[0]).toBe(0);
+    expect(plain.decodeFramed(data)).toEqual(value);
+    expect(plain.encodeFramed({ a: 1 })).toEqual(new JsonCodec().encode({ a: 1 }));
+    expect(framed.decodeFramed(plain.encodeFramed({ a: 1 }))).toEqual({ a: 1 });
+  });
+  
+  it('refuses codec names too long to frame', () => {
+    const codec = {
+      name: 'x'.repeat(256),
+      encode: () => new Uint8Array(0),
+      decode: () => undefined,
+    };
+    
+    expect(() => new Codecs({ codecs: [codec] })).toThrow('codec name is too long');
+    expect(() => new Codecs().register({ ...codec, name: 'x'.repeat(255) })).not.toThrow();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { type ConnectionOptions } from 'nats';
+import { NoopLogger } from '../logger';
+import { type ConnectOptions, connect } from '../connect';
+
+const connections = vi.hoisted(() => [] as ConnectionOptions[]);
+
+vi.mock('nats', async importOriginal => ({
+  ...await importOriginal<typeof import('nats')>(),
+  connect: async (options: ConnectionOptions) => {
+    connections.push(options);
+    
+    throw new Error('not connecting');
+  },
+}));
+
+async function options(connectOptions: ConnectOptions): Promise<ConnectionOptions> {
+  await expect(connect('test', { logger: new NoopLogger(), ...connectOptions })).rejects.toThrow('not connecting');
+  
+  return connections[connections.length - 1];
+}
+
+describe('connect', () => {
+  beforeEach(() => {
+    connections.length = 0;
+  });
+  
+  it('reads the connection settings from the environment', async () => {
+    expect(await options({
+      env: {
+        NATS_URL: 'nats://a:4222, nats://b:4222,',
+        NATS_USER: 'user',
+        NATS_PASSWORD: 'secret',
+        NATS_CLIENT_NAME: 'client',
+        NATS_MAX_RECONNECT_ATTEMPTS: '5',
+        NATS_RECONNECT_TIME_WAIT: '250',
+        NATS_CA: '/etc/nats/ca.pem',
+      },
+    })).toEqual({
+      name: 'client',
+      servers: ['nats://a:4222', 'nats://b:4222'],
+      user: 'user',
+      pass: 'secret',
+      maxReconnectAttempts: 5,
+      reconnectTimeWait: 250,
+      tls: { caFile: '/etc/nats/ca.pem', certFile: undefined, keyFile: undefined },
+    });
+  });
+  
+  it('prefers the options over the environment', async () => {
+    expect(await options({
+      servers: 'nats://c:4222',
+      token: 'token',
+      reconnect: { enabled: false, maxAttempts: 1 },
+      env: {
+        NATS_URL: 'nats://a:4222',
+        NATS_TOKEN: 'ignored',
+        NATS_MAX_RECONNECT_ATTEMPTS: '5',
+      },
+    })).toEqual({
+      name: 'test',
+      servers: 'nats://c:4222',
+      token: 'token',
+      reconnect: false,
+      maxReconnectAttempts: 1,
+    });
+  });
+  
+  it('leaves out whatever is not set so that nats keeps its defaults', async () => {
+    const connection = await options({
+      env: {
+        NATS_MAX_RECONNECT_ATTEMPTS: 'many',
+      },
+    });
+    
+    expect(Object.keys(connection)).toEqual(['name']);
+  });
+});
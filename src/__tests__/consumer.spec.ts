@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { Events } from 'nats';
+import { hashOf } from '../utils';
+import { NoopLogger } from '../logger';
+import { MemoryServer, connectMemory } from '../memory';
+
+describe('Consumer', () => {
+  describe('reconnect', () => {
+    it('fails the subscription when its consumer is gone instead of creating it again', async () => {
+      const server = new MemoryServer();
+      const errors: unknown[] = [];
+      const app = await connectMemory('test', {
+        server,
+        logger: new NoopLogger(),
+        uncaughtException: err => errors.push(err),
+      });
+      
+      const client = app.client();
+      const params = { n: 1 };
+      
+      await client.producer('ticks', async () => async () => ({ destroy: async () => {} }));
+      await client.consumer('c', 'test.default.ticks', params, async () => {});
+      
+      const stream = `producer_test_default_ticks_${hashOf(params)}`;
+      const jsm = await server.connect().jetstreamManager();
+      
+      await jsm.consumers.delete(stream, 'c');
+      server.notify({ type: Events.Reconnect, data: 'memory' });
+      
+      await expect.poll(() => errors).toContainEqual(expect.objectContaining({
+        message: 'consumer subscription failed',
+      }));
+      
+      await app.destroy();
+    });
+  });
+});
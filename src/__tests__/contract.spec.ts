@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { NoopLogger } from '../logger';
+import { jsonSchema } from '../schema';
+import { contract, contractMethod } from '../contract';
+import { connectMemory } from '../memory';
+
+const users = contract('test.default.users', {
+  get: contractMethod<{ id: number }, { id: number, name: string }>({
+    params: jsonSchema({
+      type: 'object',
+      properties: { id: { type: 'integer' } },
+      required: ['id'],
+    }),
+  }),
+  count: contractMethod<null, number>(),
+});
+
+describe('Contract', () => {
+  it('serves a contract and calls it through a proxy', async () => {
+    const app = await connectMemory('test', { logger: new NoopLogger() });
+    const client = app.client();
+    const service = await client.service(users);
+    
+    await service.method('get', async ctx => {
+      ctx.res.data = { id: ctx.req.data.id, name: `user ${ctx.req.data.id}` };
+    });
+    await service.method('count', async ctx => {
+      ctx.res.data = 42;
+    });
+    
+    const proxy = client.proxy(users);
+    
+    expect(await proxy.get({ id: 7 })).toEqual({ id: 7, name: 'user 7' });
+    expect(await proxy.count(null)).toBe(42);
+    
+    // the params schema of the contract is checked by the caller as well
+    await expect(proxy.get({ id: 'x' } as unknown as { id: number })).rejects.toThrow('invalid params');
+    
+    await app.destroy();
+  });
+  
+  it('refuses a contract named after another client', async () => {
+    const app = await connectMemory('test', { logger: new NoopLogger() });
+    
+    await expect(app.client('other').service(users)).rejects.toThrow('contract belongs to another client');
+    
+    await app.destroy();
+  });
+  
+  it('returns the response headers along with the result on invoke', async () => {
+    const app = await connectMemory('test', { logger: new NoopLogger() });
+    const client = app.client();
+    const service = await client.service('s');
+    
+    await service.method<null, string>('m', async ctx => {
+      ctx.res.headers['x-served-by'] = 'test';
+      ctx.res.data = 'ok';
+    });
+    
+    const response = await client.invoke('test.default.s.m', null);
+    
+    expect(response.result).toBe('ok');
+    expect(response.headers).toMatchObject({ 'x-served-by': 'test' });
+    
+    await app.destroy();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { StringCodec } from 'nats';
+import { NoopLogger } from '../logger';
+import { MemoryServer, connectMemory } from '../memory';
+
+const strings = StringCodec();
+
+describe('Discovery', () => {
+  it('answers PING, INFO and STATS for all services, by name and by id', async () => {
+    const server = new MemoryServer();
+    const app = await connectMemory('test', { server, logger: new NoopLogger() });
+    const client = app.client();
+    const connection = server.connect();
+    const service = await client.service('s', {
+      discovery: { version: '1.2.3', description: 'test service', metadata: { team: 'a' } },
+    });
+    
+    await service.method<boolean, string>('m', async ctx => {
+      if (ctx.req.data) {
+        throw new Error('failed on purpose');
+      }
+      
+      ctx.res.data = 'ok';
+    });
+    
+    const request = async (subject: string) => {
+      const message = await connection.request(subject);
+      
+      return JSON.parse(strings.decode(message.data)) as Record<string, unknown>;
+    };
+    
+    for (const subject of ['$SRV.PING', '$SRV.PING.test-default-s', `$SRV.PING.test-default-s.${service.id}`]) {
+      expect(await request(subject)).toEqual({
+        type: 'io.nats.micro.v1.ping_response',
+        name: 'test-default-s',
+        id: service.id,
+        version: '1.2.3',
+        metadata: { team: 'a' },
+      });
+    }
+    
+    expect(await request('$SRV.INFO.test-default-s')).toMatchObject({
+      type: 'io.nats.micro.v1.info_response',
+      description: 'test service',
+      endpoints: [{ name: 'm', subject: 'app.test.default.s.m', queue_group: 'app.test.default.s.m', metadata: null }],
+    });
+    
+    expect(await client.call('test.default.s.m', false)).toBe('ok');
+    await expect(client.call('test.default.s.m', true)).rejects.toThrow();
+    
+    const stats = await request(`$SRV.STATS.test-default-s.${service.id}`);
+    
+    expect(stats).toMatchObject({
+      type: 'io.nats.micro.v1.stats_response',
+      endpoints: [{ name: 'm', num_requests: 2, num_errors: 1, last_error: 'failed on purpose' }],
+    });
+    expect(typeof stats.started).toBe('string');
+    
+    await app.destroy();
+  });
+  
+  it('stops answering once the service is destroyed', async () => {
+    const server = new MemoryServer();
+    const app = await connectMemory('test', { server, logger: new NoopLogger() });
+    const service = await app.client().service('s', { discovery: true });
+    const connection = server.connect();
+    
+    await service.destroy();
+    
+    await expect(connection.request('$SRV.PING.test-default-s')).rejects.toThrow();
+    
+    await app.destroy();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OvernatsError,
+  OvernatsClientError,
+  registerError,
+  serializeError,
+  deserializeError,
+} from '../errors';
+import { NoopLogger } from '../logger';
+import { connectMemory } from '../memory';
+
+class NotFoundError extends OvernatsClientError {}
+
+class UserNotFoundError extends NotFoundError {}
+
+registerError('ENOTFOUND', NotFoundError);
+
+describe('errors', () => {
+  it('round-trips registered errors with their cause chain', () => {
+    const err = new NotFoundError('not found', {
+      cause: new OvernatsClientError('lookup failed', {
+        cause: new OvernatsError('storage down', { details: { shard: 2 } }),
+      }),
+      details: { id: 7 },
+    });
+    
+    const serialized = serializeError(err);
+    
+    expect(serialized).toEqual({
+      code: 'ENOTFOUND',
+      message: 'not found',
+      details: { id: 7 },
+      cause: {
+        code: 'EFAIL',
+        message: 'lookup failed',
+        details: undefined,
+        cause: { code: 'EINTERNAL', message: 'storage down', details: { shard: 2 } },
+      },
+    });
+    
+    const deserialized = deserializeError(JSON.parse(JSON.stringify(serialized)));
+    
+    expect(deserialized).toBeInstanceOf(NotFoundError);
+    expect(deserialized).toMatchObject({ message: 'not found', details: { id: 7 } });
+    expect(deserialized.cause).toBeInstanceOf(OvernatsClientError);
+    expect((deserialized.cause as Error).cause).toMatchObject({ message: 'storage down', details: { shard: 2 } });
+  });
+  
+  it('keeps unregistered errors and their causes from crossing the wire', () => {
+    expect(serializeError(new TypeError('secret'))).toEqual({ code: 'EINTERNAL', message: 'internal error' });
+    expect(serializeError(new OvernatsClientError('failed', { cause: new Error('secret') }))).toEqual({
+      code: 'EFAIL',
+      message: 'failed',
+      details: undefined,
+    });
+  });
+  
+  it('serializes unregistered subclasses as their closest registered ancestor', () => {
+    expect(serializeError(new UserNotFoundError('no user'))).toMatchObject({ code: 'ENOTFOUND' });
+  });
+  
+  it('refuses to register a code twice for different classes', () => {
+    expect(() => registerError('ENOTFOUND', NotFoundError)).not.toThrow();
+    expect(() => registerError('ENOTFOUND', UserNotFoundError)).toThrow('error code already registered');
+  });
+  
+  it('deserializes unknown codes and values as plain errors', () => {
+    expect(deserializeError({ code: 'EUNKNOWN', message: 'odd' })).toMatchObject({ message: 'odd' });
+    expect(deserializeError({ code: 'EUNKNOWN', message: 'odd' })).not.toBeInstanceOf(OvernatsClientError);
+    expect(deserializeError('garbage')).toMatchObject({ message: 'unknown error' });
+  });
+  
+  it('rejects calls with the registered error the handler threw', async () => {
+    const app = await connectMemory('test', { logger: new NoopLogger() });
+    const client = app.client();
+    const service = await client.service('s');
+    
+    await service.method('m', async () => {
+      throw new NotFoundError('not found', { details: { id: 7 } });
+    });
+    
+    const failed = client.call('test.default.s.m', null);
+    
+    await expect(failed).rejects.toBeInstanceOf(NotFoundError);
+    await expect(failed).rejects.toMatchObject({ details: { id: 7 } });
+    
+    await app.destroy();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { TestClock } from '../clock';
+import { NoopLogger } from '../logger';
+import { type HealthReport, Health, HealthHttpServer } from '../health';
+import { connectMemory } from '../memory';
+
+describe('Health', () => {
+  it('is live until a component fails and ready once all of them are ok', async () => {
+    const clock = new TestClock();
+    const health = new Health({ clock });
+    const connection = health.reporter('connection', 'ok');
+    const consumer = health.reporter('consumer');
+    
+    expect(health.report()).toMatchObject({ live: true, ready: false });
+    
+    await clock.advance(1000);
+    consumer.set('ok');
+    
+    expect(health.report()).toEqual({
+      live: true,
+      ready: true,
+      components: [
+        { name: 'connection', state: 'ok', message: undefined, since: '1970-01-01T00:00:00.000Z' },
+        { name: 'consumer', state: 'ok', message: undefined, since: '1970-01-01T00:00:01.000Z' },
+      ],
+    });
+    
+    connection.set('failing', 'disconnected');
+    
+    expect(health.report()).toMatchObject({
+      live: false,
+      ready: false,
+      components: [{ name: 'connection', state: 'failing', message: 'disconnected' }, { name: 'consumer' }],
+    });
+    
+    await connection.destroy();
+    
+    expect(health.report()).toMatchObject({ live: true, ready: true, components: [{ name: 'consumer' }] });
+  });
+  
+  it('answers the liveness and readiness probes over http', async () => {
+    const health = new Health({ clock: new TestClock() });
+    const consumer = health.reporter('consumer');
+    const server = new HealthHttpServer({ health, port: 0, host: '127.0.0.1' });
+    
+    await server.init();
+    
+    try {
+      const probe = async (path: string) => (await fetch(`http://127.0.0.1:${server.port}${path}`)).status;
+      
+      expect([await probe('/livez'), await probe('/healthz'), await probe('/readyz')]).toEqual([200, 200, 503]);
+      
+      consumer.set('ok');
+      
+      expect(await probe('/readyz?verbose')).toBe(200);
+      expect(await probe('/other')).toBe(404);
+    } finally {
+      await server.destroy();
+    }
+  });
+  
+  it('serves the app health report over nats', async () => {
+    const app = await connectMemory('test', { logger: new NoopLogger() });
+    const client = app.client();
+    
+    await app.serveHealth();
+    
+    const report = await client.call<null, HealthReport>('test.health.check', null);
+    
+    expect(report).toMatchObject({
+      live: true,
+      ready: true,
+      components: [{ name: 'connection', state: 'ok' }],
+    });
+    
+    await app.destroy();
+  });
+});
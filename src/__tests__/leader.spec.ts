@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { StringCodec } from 'nats';
+import { type LeaderCallbacks } from '../leader';
+import { TestClock } from '../clock';
+import { NoopLogger } from '../logger';
+import { MemoryServer, connectMemory } from '../memory';
+
+async function setup() {
+  const clock = new TestClock();
+  const server = new MemoryServer({ clock });
+  const app = await connectMemory('test', {
+    server,
+    logger: new NoopLogger(),
+    options: { lockTimeout: 3000 },
+  });
+  
+  return { clock, server, app };
+}
+
+function candidate(name: string, trail: string[], scope?: Partial<LeaderCallbacks>): LeaderCallbacks {
+  return {
+    onElected: async () => {
+      trail.push(`${name} elected`);
+      
+      return {
+        destroy: async () => {
+          trail.push(`${name} scope destroyed`);
+        },
+      };
+    },
+    onDemoted: async () => {
+      trail.push(`${name} demoted`);
+    },
+    ...scope,
+  };
+}
+
+describe('Leader', () => {
+  it('demotes the leader right away when its lease is taken and lets the other candidate in', async () => {
+    const { clock, server, app } = await setup();
+    const trail: string[] = [];
+    const a = await app.client().leader('l', candidate('a', trail));
+    const b = await app.client().leader('l', candidate('b', trail));
+    const kv = await server.connect().jetstream().views.kv('locks');
+    
+    expect([a.elected, b.elected]).toEqual([true, false]);
+    
+    await kv.put('app.test.default.l', StringCodec().encode('{"id":"other","since":""}'));
+    await clock.advance(1000);
+    
+    expect(a.elected).toBe(false);
+    expect(trail.slice(0, 3)).toEqual(['a elected', 'a scope destroyed', 'a demoted']);
+    
+    // the stolen record expires with the bucket ttl, and whoever campaigns
+    // next takes over
+    await clock.advance(3000);
+    
+    expect(a.elected || b.elected).toBe(true);
+    
+    await app.destroy();
+  });
+  
+  it('releases the key even when the scope fails to go away', async () => {
+    const { clock, app } = await setup();
+    const trail: string[] = [];
+    const a = await app.client().leader('l', candidate('a', trail, {
+      onElected: async () => ({
+        destroy: async () => {
+          throw new Error('stuck');
+        },
+      }),
+    }));
+    const b = await app.client().leader('l', candidate('b', trail));
+    
+    await expect(a.destroy()).rejects.toThrow('stuck');
+    await clock.advance(1000);
+    
+    expect(b.elected).toBe(true);
+    
+    await app.destroy();
+  });
+  
+  it('leaves nothing running when taking office fails on init', async () => {
+    const { clock, app } = await setup();
+    const pending = clock.pending;
+    
+    await expect(app.client().leader('l', {
+      onElected: async () => {
+        throw new Error('refused');
+      },
+    })).rejects.toThrow('refused');
+    
+    expect(clock.pending).toBe(pending);
+    
+    await app.destroy();
+  });
+});
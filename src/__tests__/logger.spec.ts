@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { TestClock } from '../clock';
+import { OvernatsError } from '../errors';
+import { type LogLevel, type ConsoleLoggerWriteCallback, ConsoleLogger } from '../logger';
+import { connectMemory } from '../memory';
+
+type Line = [LogLevel, Record<string, unknown>];
+
+function capture(): { lines: Line[], write: ConsoleLoggerWriteCallback } {
+  const lines: Line[] = [];
+  
+  return {
+    lines,
+    write: (level, line) => lines.push([level, JSON.parse(line)]),
+  };
+}
+
+describe('ConsoleLogger', () => {
+  it('stamps records with the time of its clock', async () => {
+    const clock = new TestClock(Date.UTC(2024, 0, 1));
+    const { lines, write } = capture();
+    const logger = new ConsoleLogger({ clock, write });
+    
+    logger.info('first');
+    await clock.advance(1500);
+    logger.child({ component: 'x' }).info('second');
+    
+    expect(lines.map(([, record]) => record.time)).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T00:00:01.500Z',
+    ]);
+  });
+  
+  it('drops records below its level and passes the level on to the writer', () => {
+    const { lines, write } = capture();
+    const logger = new ConsoleLogger({ level: 'warn', write });
+    
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+    
+    expect(lines.map(([level, record]) => [level, record.message])).toEqual([
+      ['warn', 'warn'],
+      ['error', 'error'],
+    ]);
+  });
+  
+  it('merges the fields of its children and of each record', () => {
+    const { lines, write } = capture();
+    const logger = new ConsoleLogger({ fields: { app: 'a' }, write });
+    
+    logger.child({ component: 'c' }).child({ component: 'd' }).info('hello', { id: 1, big: 2n });
+    
+    expect(lines[0][1]).toMatchObject({ level: 'info', message: 'hello', app: 'a', component: 'd', id: 1, big: '2' });
+  });
+  
+  it('writes errors out with their details and causes', () => {
+    const { lines, write } = capture();
+    const logger = new ConsoleLogger({ write });
+    
+    logger.error('failed', {
+      err: new OvernatsError('outer', { cause: new Error('inner'), details: { id: 1 } }),
+    });
+    
+    expect(lines[0][1].err).toMatchObject({
+      message: 'outer',
+      details: { id: 1 },
+      cause: { message: 'inner' },
+    });
+  });
+  
+  it('is handed down to the app with its name as a field', async () => {
+    const { lines, write } = capture();
+    const app = await connectMemory('test', { logger: new ConsoleLogger({ level: 'debug', write }) });
+    const spawner = await app.backend.spawner(async () => ({ destroy: async () => {} }));
+    
+    await spawner.spawnItem('k', null);
+    
+    expect(lines.map(([, record]) => record)).toContainEqual(expect.objectContaining({
+      message: 'spawner item spawned',
+      app: 'test',
+      key: 'k',
+    }));
+    
+    await app.destroy();
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorCode, RetentionPolicy, DeliverPolicy, StringCodec } from 'nats';
+import { isWrongLastSequenceError } from '../utils';
+import { TestClock } from '../clock';
+import { MemoryServer } from '../memory';
+
+const strings = StringCodec();
+
+async function take<T>(iterable: AsyncIterable<T>, count: number): Promise<T[]> {
+  const items: T[] = [];
+  
+  for await (const item of iterable) {
+    items.push(item);
+    
+    if (items.length == count) {
+      break;
+    }
+  }
+  
+  return items;
+}
+
+describe('MemoryServer', () => {
+  describe('core', () => {
+    it('delivers to matching subscribers and one member of each queue group', async () => {
+      const connection = new MemoryServer().connect();
+      const all = connection.subscribe('orders.>');
+      const first = connection.subscribe('orders.*', { queue: 'workers' });
+      const second = connection.subscribe('orders.*', { queue: 'workers' });
+      
+      connection.publish('orders.created', strings.encode('a'));
+      connection.publish('orders.created', strings.encode('b'));
+      connection.publish('invoices.created', strings.encode('c'));
+      
+      const received = await take(all, 2);
+      const [one] = await take(first, 1);
+      const [two] = await take(second, 1);
+      
+      expect(received.map(message => strings.decode(message.data))).toEqual(['a', 'b']);
+      expect([strings.decode(one.data), strings.decode(two.data)]).toEqual(['a', 'b']);
+    });
+    
+    it('fails requests without responders right away and times out on the clock', async () => {
+      const clock = new TestClock();
+      const connection = new MemoryServer({ clock }).connect();
+      
+      await expect(connection.request('nobody')).rejects.toMatchObject({
+        code: ErrorCode.NoResponders,
+      });
+      
+      connection.subscribe('silent');
+      
+      const request = connection.request('silent', undefined, { timeout: 500 });
+      const settled = expect(request).rejects.toMatchObject({ code: ErrorCode.Timeout });
+      
+      await clock.advance(500);
+      await settled;
+    });
+    
+    it('refuses to publish on a closed connection', async () => {
+      const connection = new MemoryServer().connect();
+      
+      await connection.close();
+      
+      expect(() => connection.publish('x')).toThrow(expect.objectContaining({
+        code: ErrorCode.ConnectionClosed,
+      }));
+    });
+  });
+  
+  describe('key-value', () => {
+    it('creates only absent keys and updates only the expected revision', async () => {
+      const kv = await new MemoryServer().connect().jetstream().views.kv('test');
+      
+      const first = await kv.create('a', strings.encode('1'));
+      
+      await expect(kv.create('a', strings.encode('2'))).rejects.toSatisfy(isWrongLastSequenceError);
+      
+      const second = await kv.update('a', strings.encode('2'), first);
+      
+      expect(second).toBeGreaterThan(first);
+      await expect(kv.update('a', strings.encode('3'), first)).rejects.toSatisfy(isWrongLastSequenceError);
+      await expect(kv.delete('a', { previousSeq: first })).rejects.toSatisfy(isWrongLastSequenceError);
+      
+      await kv.delete('a', { previousSeq: second });
+      
+      // a deleted key can be created again, and is left out of the keys
+      expect(await take(await kv.keys(), 1)).toEqual([]);
+      expect(await kv.create('a', strings.encode('4'))).toBeGreaterThan(second);
+    });
+    
+    it('expires keys after the bucket ttl since their last write', async () => {
+      const clock = new TestClock();
+      const kv = await new MemoryServer({ clock }).connect().jetstream().views.kv('test', { ttl: 1000 });
+      
+      const revision = await kv.create('a', strings.encode('1'));
+      
+      await clock.advance(600);
+      await kv.update('a', strings.encode('2'), revision);
+      await clock.advance(600);
+      
+      expect(await kv.get('a')).not.toBeNull();
+      
+      await clock.advance(400);
+      
+      expect(await kv.get('a')).toBeNull();
+      await expect(kv.update('a', strings.encode('3'), revision + 1)).rejects.toSatisfy(isWrongLastSequenceError);
+    });
+    
+    it('replays current values before live updates and reports when it caught up', async () => {
+      const kv = await new MemoryServer().connect().jetstream().views.kv('test');
+      const events: string[] = [];
+      
+      await kv.put('a', strings.encode('1'));
+      await kv.put('b', strings.encode('2'));
+      
+      const watch = await kv.watch({
+        key: 'a',
+        initializedFn: () => events.push('initialized'),
+      });
+      
+      await kv.put('a', strings.encode('3'));
+      
+      for await (const entry of watch) {
+        events.push(`${entry.key}=${entry.string()}`);
+        
+        if (events.length == 3) {
+          break;
+        }
+      }
+      
+      watch.stop();
+      
+      expect(events).toEqual(['a=1', 'initialized', 'a=3']);
+    });
+  });
+  
+  describe('jetstream', () => {
+    it('does not keep messages in an interest stream without consumers', async () => {
+      const connection = new MemoryServer().connect();
+      const jsm = await connection.jetstreamManager();
+      const js = connection.jetstream();
+      
+      await jsm.streams.add({ name: 's', subjects: ['s'], retention: RetentionPolicy.Interest });
+      await js.publish('s', strings.encode('dropped'));
+      await jsm.consumers.add('s', { durable_name: 'c', deliver_policy: DeliverPolicy.All });
+      await js.publish('s', strings.encode('kept'));
+      
+      const messages = await (await js.consumers.get('s', 'c')).consume();
+      const [message] = await take(messages, 1);
+      
+      expect(strings.decode(message.data)).toBe('kept');
+      messages.stop();
+    });
+    
+    it('keeps messages in a limits stream for consumers created later', async () => {
+      const connection = new MemoryServer().connect();
+      const jsm = await connection.jetstreamManager();
+      const js = connection.jetstream();
+      
+      await jsm.streams.add({ name: 's', subjects: ['s'] });
+      await js.publish('s', strings.encode('early'));
+      await jsm.consumers.add('s', { durable_name: 'c', deliver_policy: DeliverPolicy.All });
+      
+      const messages = await (await js.consumers.get('s', 'c')).consume();
+      const [message] = await take(messages, 1);
+      
+      expect(strings.decode(message.data)).toBe('early');
+      messages.stop();
+    });
+    
+    it('redelivers nacked messages with a growing redelivery count', async () => {
+      const connection = new MemoryServer().connect();
+      const jsm = await connection.jetstreamManager();
+      const js = connection.jetstream();
+      
+      await jsm.streams.add({ name: 's', subjects: ['s'], retention: RetentionPolicy.Interest });
+      await jsm.consumers.add('s', { durable_name: 'c' });
+      await js.publish('s', strings.encode('m'));
+      
+      const messages = await (await js.consumers.get('s', 'c')).consume();
+      const counts: number[] = [];
+      
+      for await (const message of messages) {
+        counts.push(message.info.redeliveryCount);
+        
+        if (counts.length < 3) {
+          message.nak();
+        } else {
+          message.ack();
+          break;
+        }
+      }
+      
+      expect(counts).toEqual([1, 2, 3]);
+      messages.stop();
+    });
+    
+    it('rejects publishing to a subject without a stream', async () => {
+      const js = new MemoryServer().connect().jetstream();
+      
+      await expect(js.publish('nowhere')).rejects.toMatchObject({ code: ErrorCode.NoResponders });
+    });
+  });
+});
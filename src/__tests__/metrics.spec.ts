@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { NoopLogger } from '../logger';
+import { PrometheusMetrics } from '../metrics';
+import { connectMemory } from '../memory';
+
+describe('PrometheusMetrics', () => {
+  it('renders counters and cumulative histograms in the text format', () => {
+    const metrics = new PrometheusMetrics({ buckets: [1, 0.1] });
+    
+    metrics.increment('service_requests_total', { method: 'a' });
+    metrics.increment('service_requests_total', { method: 'a' }, 2);
+    metrics.increment('service_requests_total', { method: 'b' });
+    metrics.observe('bucket_lock_wait_seconds', 0.05, { bucket: 'locks' });
+    metrics.observe('bucket_lock_wait_seconds', 0.5, { bucket: 'locks' });
+    metrics.observe('bucket_lock_wait_seconds', 5, { bucket: 'locks' });
+    
+    expect(metrics.render()).toBe([
+      '# HELP overnats_service_requests_total Service method requests handled',
+      '# TYPE overnats_service_requests_total counter',
+      'overnats_service_requests_total{method="a"} 3',
+      'overnats_service_requests_total{method="b"} 1',
+      '# HELP overnats_bucket_lock_wait_seconds Time spent acquiring bucket locks',
+      '# TYPE overnats_bucket_lock_wait_seconds histogram',
+      'overnats_bucket_lock_wait_seconds_bucket{bucket="locks",le="0.1"} 1',
+      'overnats_bucket_lock_wait_seconds_bucket{bucket="locks",le="1"} 2',
+      'overnats_bucket_lock_wait_seconds_bucket{bucket="locks",le="+Inf"} 3',
+      'overnats_bucket_lock_wait_seconds_sum{bucket="locks"} 5.55',
+      'overnats_bucket_lock_wait_seconds_count{bucket="locks"} 3',
+      '',
+    ].join('\n'));
+  });
+  
+  it('escapes label values and leaves out the help of unknown metrics', () => {
+    const metrics = new PrometheusMetrics({ prefix: 'app_' });
+    
+    metrics.increment('custom_total', { path: 'a "b"\\c\nd' });
+    
+    expect(metrics.render()).toBe([
+      '# TYPE app_custom_total counter',
+      'app_custom_total{path="a \\"b\\"\\\\c\\nd"} 1',
+      '',
+    ].join('\n'));
+  });
+  
+  it('counts the calls a service handles', async () => {
+    const metrics = new PrometheusMetrics();
+    const app = await connectMemory('test', { metrics, logger: new NoopLogger() });
+    const client = app.client();
+    const service = await client.service('s');
+    
+    await service.method('m', async ctx => {
+      ctx.res.data = null;
+    });
+    await client.call('test.default.s.m', null);
+    
+    expect(metrics.render()).toContain('overnats_service_requests_total{method="app.test.default.s.m"} 1');
+    
+    await app.destroy();
+  });
+});
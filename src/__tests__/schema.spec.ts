@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { OvernatsError, OvernatsClientError } from '../errors';
+import { NoopLogger } from '../logger';
+import { jsonSchema, assertParams, assertResult } from '../schema';
+import { connectMemory } from '../memory';
+
+const user = jsonSchema<{ name: string, tags: string[] }>({
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['name'],
+  additionalProperties: false,
+});
+
+describe('schema', () => {
+  it('reports every issue with the path it was found at', () => {
+    expect(user.validate({ name: 'a', tags: ['b'] })).toEqual([]);
+    expect(user.validate({ tags: ['b', 1], age: 3 })).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'tags[1]', message: 'must be string' },
+      { path: 'age', message: 'is not allowed' },
+    ]);
+  });
+  
+  it('rejects params as a client error and results as a server one, listing the fields', () => {
+    expect(() => assertParams(undefined, 'anything')).not.toThrow();
+    
+    const params = catchError(() => assertParams(user, { name: '' }));
+    
+    expect(params).toBeInstanceOf(OvernatsClientError);
+    expect(params).toMatchObject({
+      message: 'invalid params',
+      details: { fields: [{ path: 'name', message: 'must be at least 1 characters long' }] },
+    });
+    
+    const result = catchError(() => assertResult(user, null));
+    
+    expect(result).toBeInstanceOf(OvernatsError);
+    expect(result).not.toBeInstanceOf(OvernatsClientError);
+    expect(result).toMatchObject({
+      message: 'invalid result',
+      details: { fields: [{ path: '', message: 'must be object' }] },
+    });
+  });
+  
+  it('fails calls with invalid params before the handler runs', async () => {
+    const app = await connectMemory('test', { logger: new NoopLogger() });
+    const client = app.client();
+    const service = await client.service('s');
+    let calls = 0;
+    
+    await service.method('m', async ctx => {
+      calls++;
+      ctx.res.data = null;
+    }, { params: user });
+    
+    await expect(client.call('test.default.s.m', { name: 'a', extra: true })).rejects.toMatchObject({
+      message: 'invalid params',
+      details: { fields: [{ path: 'extra', message: 'is not allowed' }] },
+    });
+    expect(calls).toBe(0);
+    
+    await app.destroy();
+  });
+});
+
+function catchError(callback: () => void): unknown {
+  try {
+    callback();
+  } catch (err) {
+    return err;
+  }
+  
+  return undefined;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { StringCodec } from 'nats';
+import { TestClock } from '../clock';
+import { NoopLogger } from '../logger';
+import { MemoryServer, connectMemory } from '../memory';
+
+async function setup() {
+  const clock = new TestClock();
+  const server = new MemoryServer({ clock });
+  const app = await connectMemory('test', {
+    server,
+    logger: new NoopLogger(),
+    options: { lockTimeout: 3000 },
+  });
+  
+  return { clock, server, app, client: app.client() };
+}
+
+describe('Semaphore', () => {
+  it('frees the permit of a holder that stopped renewing once its lease expires', async () => {
+    const { clock, server, app, client } = await setup();
+    const semaphore = client.semaphore('s', 1);
+    const kv = await server.connect().jetstream().views.kv('locks');
+    
+    // what a crashed holder leaves behind
+    await kv.create('_overnats.semaphore.app.test.default.s.permit.0', StringCodec().encode('null'));
+    
+    let acquired = false;
+    
+    const acquire = semaphore.acquire(async () => {
+      acquired = true;
+    }, { timeout: 10_000 });
+    
+    await clock.advance(2000);
+    
+    expect(acquired).toBe(false);
+    expect(await semaphore.held()).toBe(1);
+    
+    await clock.advance(3000);
+    await acquire;
+    
+    expect(acquired).toBe(true);
+    expect(await semaphore.held()).toBe(0);
+    
+    await app.destroy();
+  });
+  
+  it('rejects a permit count other than the one the semaphore is used with', async () => {
+    const { app, client } = await setup();
+    
+    await client.semaphore('s', 2).acquire(async () => {});
+    
+    await expect(client.semaphore('s', 3).acquire(async () => {})).rejects.toThrow('semaphore permits mismatch');
+    
+    await app.destroy();
+  });
+  
+  it('keeps the permit count for as long as a permit is held', async () => {
+    const { clock, app, client } = await setup();
+    
+    let release: () => void = () => {};
+    
+    const held = client.semaphore('s', 2).acquire(async () => {
+      await new Promise<void>(resolve => {
+        release = resolve;
+      });
+    });
+    
+    await clock.advance(10_000);
+    
+    await expect(client.semaphore('s', 3).acquire(async () => {})).rejects.toThrow('semaphore permits mismatch');
+    
+    release();
+    await held;
+    await app.destroy();
+  });
+});
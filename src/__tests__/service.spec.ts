@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { StringCodec } from 'nats';
+import { TestClock } from '../clock';
+import { OvernatsOverloadedError } from '../errors';
+import { NoopLogger } from '../logger';
+import { type Service } from '../service';
+import { MemoryServer, connectMemory } from '../memory';
+
+describe('Service', () => {
+  describe('middleware', () => {
+    it('runs service middleware around method middleware and the handler', async () => {
+      const app = await connectMemory('test', { logger: new NoopLogger() });
+      const client = app.client();
+      const service = await client.service('s');
+      const trail: string[] = [];
+      
+      service.middleware(async (ctx, next) => {
+        trail.push('service before');
+        await next();
+        trail.push('service after');
+      });
+      
+      await service.method<null, string>('m', async ctx => {
+        trail.push('handler');
+        ctx.res.data = 'ok';
+      }, {
+        middleware: [
+          async (ctx, next) => {
+            trail.push('method before');
+            await next();
+            trail.push('method after');
+          },
+        ],
+      });
+      
+      expect(await client.call('test.default.s.m', null)).toBe('ok');
+      expect(trail).toEqual([
+        'service before',
+        'method before',
+        'handler',
+        'method after',
+        'service after',
+      ]);
+      
+      await app.destroy();
+    });
+  });
+  
+  describe('headers', () => {
+    it('keeps the trace context out of the request headers', async () => {
+      const app = await connectMemory('test', { logger: new NoopLogger() });
+      const client = app.client();
+      const service = await client.service('s');
+      
+      await service.method<null, string[]>('m', async ctx => {
+        ctx.res.data = Object.keys(ctx.req.headers);
+      });
+      
+      expect(await client.call('test.default.s.m', null, { headers: { custom: 'x' } })).toEqual(['custom']);
+      
+      await app.destroy();
+    });
+  });
+  
+  describe('limits', () => {
+    it('sheds calls past the concurrency and the queue as overloaded', async () => {
+      const app = await connectMemory('test', { logger: new NoopLogger() });
+      const client = app.client();
+      const service = await client.service('s');
+      
+      let release: () => void = () => {};
+      let started = 0;
+      
+      const released = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      
+      await service.method<null, number>('m', async ctx => {
+        ctx.res.data = ++started;
+        await released;
+      }, { concurrency: 1, queue: 1 });
+      
+      const running = client.call('test.default.s.m', null);
+      const queued = client.call('test.default.s.m', null);
+      const shed = client.call('test.default.s.m', null);
+      
+      await expect(shed).rejects.toBeInstanceOf(OvernatsOverloadedError);
+      await expect(shed).rejects.toMatchObject({ details: { method: 'app.test.default.s.m', active: 1, pending: 1 } });
+      expect(started).toBe(1);
+      
+      release();
+      
+      expect(await Promise.all([running, queued])).toEqual([1, 2]);
+      
+      await app.destroy();
+    });
+  });
+  
+  describe('singleton', () => {
+    it('serves and advertises singleton methods from the leader only and fails over', async () => {
+      const clock = new TestClock();
+      const server = new MemoryServer({ clock });
+      const app = await connectMemory('test', {
+        server,
+        logger: new NoopLogger(),
+        options: { lockTimeout: 3000 },
+      });
+      const connection = server.connect();
+      const strings = StringCodec();
+      
+      const start = async (n: number) => {
+        const service = await app.client().service('state', { singleton: true, discovery: true });
+        
+        await service.method<null, number>('who', async ctx => {
+          ctx.res.data = n;
+        });
+        
+        return service;
+      };
+      const advertised = async (service: Service) => {
+        const message = await connection.request(`$SRV.INFO.test-default-state.${service.id}`);
+        const info = JSON.parse(strings.decode(message.data)) as { endpoints: { name: string }[] };
+        
+        return info.endpoints.map(endpoint => endpoint.name);
+      };
+      
+      const first = await start(1);
+      const second = await start(2);
+      const client = app.client();
+      
+      expect(await client.call('test.default.state.who', null)).toBe(1);
+      expect(await advertised(first)).toEqual(['who']);
+      expect(await advertised(second)).toEqual([]);
+      
+      await first.destroy();
+      await clock.advance(1000);
+      
+      expect(await client.call('test.default.state.who', null)).toBe(2);
+      expect(await advertised(second)).toEqual(['who']);
+      
+      await app.destroy();
+    });
+  });
+});
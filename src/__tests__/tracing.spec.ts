@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { NoopLogger } from '../logger';
+import {
+  type Span,
+  type SpanOptions,
+  type Tracer,
+  traceId,
+  spanId,
+  formatTraceparent,
+  parseTraceparent,
+  withSpan,
+} from '../tracing';
+import { connectMemory } from '../memory';
+
+type RecordedSpan = SpanOptions & {
+  name: string;
+  span: Span;
+};
+
+class RecordingTracer implements Tracer {
+  public spans: RecordedSpan[] = [];
+  
+  public startSpan(name: string, options: SpanOptions): Span {
+    const span = {
+      context: {
+        traceId: options.parent?.traceId ?? traceId(),
+        spanId: spanId(),
+        sampled: true,
+      },
+      setAttribute() {},
+      recordError() {},
+      end() {},
+    };
+    
+    this.spans.push({ ...options, name, span });
+    
+    return span;
+  }
+  
+  public find(name: string): RecordedSpan {
+    const span = this.spans.find(item => item.name == name);
+    if (!span) {
+      throw new Error(`no span ${name}`);
+    }
+    
+    return span;
+  }
+}
+
+describe('tracing', () => {
+  it('formats and parses traceparent headers', () => {
+    const context = { traceId: traceId(), spanId: spanId(), sampled: true };
+    
+    expect(parseTraceparent(formatTraceparent(context))).toEqual(context);
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${spanId()}-01`)).toBeUndefined();
+    expect(parseTraceparent(`ff-${traceId()}-${spanId()}-01`)).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+    expect(parseTraceparent(undefined)).toBeUndefined();
+  });
+  
+  it('carries the trace across a call and the calls its handler makes', async () => {
+    const tracer = new RecordingTracer();
+    const app = await connectMemory('test', { tracer, logger: new NoopLogger() });
+    const client = app.client();
+    const service = await client.service('s');
+    
+    await service.method<null, string>('inner', async ctx => {
+      ctx.res.data = 'ok';
+    });
+    await service.method<null, string>('outer', async ctx => {
+      ctx.res.data = await client.call('test.default.s.inner', null);
+    });
+    
+    const root = await withSpan(tracer, 'root', { kind: 'internal' }, async span => {
+      await client.call('test.default.s.outer', null);
+      
+      return span;
+    });
+    
+    const chain = [
+      'call app.test.default.s.outer',
+      'receive app.test.default.s.outer',
+      'serve app.test.default.s.outer',
+      'call app.test.default.s.inner',
+      'receive app.test.default.s.inner',
+      'serve app.test.default.s.inner',
+    ].map(name => tracer.find(name));
+    
+    expect(chain.map(span => span.kind)).toEqual(['client', 'consumer', 'server', 'client', 'consumer', 'server']);
+    expect(chain.map(span => span.parent)).toEqual([root.context, ...chain.slice(0, -1).map(span => span.span.context)]);
+    
+    await app.destroy();
+  });
+  
+  it('carries the trace from a publish to its subscribers', async () => {
+    const tracer = new RecordingTracer();
+    const app = await connectMemory('test', { tracer, logger: new NoopLogger() });
+    const client = app.client();
+    
+    let receive: () => void = () => {};
+    
+    const received = new Promise<void>(resolve => {
+      receive = resolve;
+    });
+    
+    await client.subscribe('topic', async () => receive());
+    await client.publish('test.default.topic', 'hello');
+    await received;
+    
+    const publish = tracer.find('publish app.test.default.topic');
+    
+    expect(tracer.find('receive app.test.default.topic').parent).toEqual(publish.span.context);
+    
+    await app.destroy();
+  });
+});
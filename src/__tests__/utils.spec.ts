@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { TestClock } from '../clock';
+import { anyway, retry, linkSignals, Limiter } from '../utils';
+
+describe('linkSignals', () => {
+  it('aborts with the reason of the first signal to abort and comes off the others', () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const link = linkSignals([first.signal, second.signal]);
+    const reason = new Error('first');
+    
+    first.abort(reason);
+    
+    expect(link.signal.aborted).toBe(true);
+    expect(link.signal.reason).toBe(reason);
+    expect(getEventListeners(second.signal, 'abort')).toHaveLength(0);
+  });
+  
+  it('leaves long-lived signals alone once unlinked', () => {
+    const parent = new AbortController();
+    
+    for (let i = 0; i < 3; i++) {
+      linkSignals([new AbortController().signal, parent.signal]).unlink();
+    }
+    
+    expect(getEventListeners(parent.signal, 'abort')).toHaveLength(0);
+  });
+  
+  it('starts aborted when any of the signals already is', () => {
+    const reason = new Error('early');
+    const link = linkSignals([new AbortController().signal, AbortSignal.abort(reason)]);
+    
+    expect(link.signal.reason).toBe(reason);
+  });
+});
+
+describe('retry', () => {
+  it('does not make even the first attempt with an aborted signal', async () => {
+    let attempts = 0;
+    
+    await expect(retry(async () => {
+      attempts++;
+    }, { signal: AbortSignal.abort(new Error('early')) })).rejects.toThrow('early');
+    
+    expect(attempts).toBe(0);
+  });
+  
+  it('stops waiting on abort and comes off the signal when done', async () => {
+    const clock = new TestClock();
+    const controller = new AbortController();
+    let attempts = 0;
+    
+    const succeeded = retry(async () => {
+      if (++attempts < 2) {
+        throw new Error('busy');
+      }
+    }, { signal: controller.signal, clock, minDelay: 100, jitter: 0 });
+    
+    await clock.advance(100);
+    await succeeded;
+    
+    expect(attempts).toBe(2);
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    
+    const reason = new Error('stop');
+    const failed = retry(async () => {
+      throw new Error('busy');
+    }, { signal: controller.signal, clock, minDelay: 100, jitter: 0 });
+    const settled = expect(failed).rejects.toBe(reason);
+    
+    await clock.advance(0);
+    controller.abort(reason);
+    await settled;
+  });
+});
+
+describe('anyway', () => {
+  it('keeps the failure of the callback when the cleanup fails too', async () => {
+    await expect(anyway(async () => {
+      throw new Error('callback');
+    }, async () => {
+      throw new Error('cleanup');
+    })).rejects.toThrow('callback');
+  });
+});
+
+describe('Limiter', () => {
+  it('frees the slot of a failed task even when the trapdoor throws', async () => {
+    const limiter = new Limiter({
+      trapdoor: {
+        uncaughtException: () => {
+          throw new Error('trapdoor');
+        },
+      },
+    });
+    
+    limiter.schedule(async () => {
+      throw new Error('task');
+    });
+    
+    await limiter.destroy();
+    
+    expect(limiter.active).toBe(0);
+  });
+});
@@ -1,7 +1,36 @@
+import { type Callback } from './types';
+import {
+  type ConnectionEvents,
+  type ConnectionEventName,
+  type EventListener,
+} from './events';
 import { Autodestructible } from './autodestructible';
+import { type Health, type HealthReport, HealthHttpServer } from './health';
 import { type Backend } from './backend';
 import { Client } from './client';
 
+export type AppHealthHttpOptions = {
+  port: number;
+  host?: string;
+};
+
+export type AppHealthOptions = {
+  http?: AppHealthHttpOptions;
+};
+
+export type AppShutdownOptions = {
+  timeout?: number;
+};
+
+export type AppShutdownResult = {
+  forced: boolean;
+};
+
+export type AppSignalsOptions = AppShutdownOptions & {
+  signals?: NodeJS.Signals[];
+  exit?: boolean;
+};
+
 export type AppOptions = {
   backend: Backend;
   name: string;
@@ -10,9 +39,10 @@ export type AppOptions = {
 export class App extends Autodestructible {
   private _backend: Backend;
   private _name: string;
+  private _shutdown: Promise<AppShutdownResult> | undefined;
   
   constructor(options: AppOptions) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
@@ -26,10 +56,168 @@ export class App extends Autodestructible {
   public client(name?: string): Client {
     const client = new Client({
       backend: this._backend,
+      app: this._name,
       name: `${this._name}.${name || 'default'}`,
     });
     
-    return this.use(client);
+    return this.use(client, { group: 'clients' });
+  }
+  
+  public on<K extends ConnectionEventName>(
+    event: K,
+    listener: EventListener<ConnectionEvents[K]>,
+  ): Callback {
+    return this._backend.on(event, listener);
+  }
+  
+  public get health(): Health {
+    return this._backend.health;
+  }
+  
+  // answers `app.<name>.health.check` from any instance of the app, while the
+  // http endpoint reports on this particular instance
+  public async serveHealth(options?: AppHealthOptions): Promise<void> {
+    const service = this.use(await this._backend.service(`app.${this._name}.health`));
+    
+    await service.method<void, HealthReport>('check', async ctx => {
+      ctx.res.data = this._backend.health.report();
+    });
+    
+    if (options?.http) {
+      const server = new HealthHttpServer({
+        health: this._backend.health,
+        ...options.http,
+      });
+      
+      await server.init();
+      
+      this.use(server);
+    }
+  }
+  
+  // resolves to whether the promise settled, either way, within the timeout
+  private async _settleWithin(promise: Promise<unknown>, timeout: number): Promise<boolean> {
+    const { clock } = this._backend;
+    
+    let expire: (settled: boolean) => void = () => {};
+    
+    const deadline = new Promise<boolean>(resolve => {
+      expire = resolve;
+    });
+    const timer = clock.setTimeout(() => expire(false), timeout);
+    
+    try {
+      return await Promise.race([promise.then(() => true, () => true), deadline]);
+    } finally {
+      clock.clearTimeout(timer);
+    }
+  }
+  
+  private async _shutdownWithin(timeout: number): Promise<AppShutdownResult> {
+    const { logger } = this._backend;
+    const health = this._backend.health.reporter('shutdown', 'starting');
+    
+    health.set('starting', 'shutting down');
+    logger.info('shutdown started', { timeout });
+    
+    // in-flight handlers learn about the shutdown before their components
+    // start going away
+    this._backend.abort();
+    
+    const destroy = this.destroy();
+    
+    let settled: boolean;
+    
+    try {
+      settled = await this._settleWithin(destroy, timeout);
+    } finally {
+      await health.destroy();
+    }
+    
+    if (settled) {
+      await destroy;
+      
+      logger.info('shutdown completed');
+      
+      return { forced: false };
+    }
+    
+    logger.warn('shutdown deadline exceeded, closing connection', { timeout });
+    
+    await this._backend.close();
+    
+    // whatever was still stuck fails once the connection is gone, which is
+    // what forcing it means rather than an uncaught error; a handler that
+    // ignores both the signal and the connection is left behind after
+    // another timeout
+    if (await this._settleWithin(destroy, timeout)) {
+      await destroy.catch(err => {
+        logger.warn('shutdown forced components to fail', { err });
+      });
+    } else {
+      logger.warn('shutdown left components behind', { timeout });
+    }
+    
+    return { forced: true };
+  }
+  
+  // destroys the app in the usual order, so that services and consumers stop
+  // taking new work and finish what is in flight, producers hand their shards
+  // over, and the connection is drained; forces the connection closed if that
+  // does not happen within the timeout
+  public async shutdown(options?: AppShutdownOptions): Promise<AppShutdownResult> {
+    const {
+      timeout = 10_000,
+    } = options ?? {};
+    
+    if (!this._shutdown) {
+      this._shutdown = this._shutdownWithin(timeout);
+    }
+    
+    return await this._shutdown;
+  }
+  
+  // a second signal exits right away without waiting for the shutdown
+  public shutdownOnSignals(options?: AppSignalsOptions): Callback {
+    const {
+      signals = ['SIGINT', 'SIGTERM'],
+      exit = true,
+      ...shutdownOptions
+    } = options ?? {};
+    
+    const handler = (signal: NodeJS.Signals) => {
+      if (this._shutdown) {
+        if (exit) {
+          process.exit(1);
+        }
+        
+        return;
+      }
+      
+      this._backend.logger.info('signal received', { signal });
+      
+      this.shutdown(shutdownOptions).then(result => {
+        if (exit) {
+          process.exit(result.forced ? 1 : 0);
+        }
+      }, err => {
+        this._backend.uncaughtException(err);
+        
+        if (exit) {
+          process.exit(1);
+        }
+      });
+    };
+    
+    for (const signal of signals) {
+      process.on(signal, handler);
+    }
+    
+    return () => {
+      for (const signal of signals) {
+        process.off(signal, handler);
+      }
+    };
   }
   
   public get backend(): Backend {
@@ -1,25 +1,90 @@
 import { type Destructible } from './types';
+import { type Clock, systemClock } from './clock';
+import { OvernatsError, OvernatsAggregateError } from './errors';
+
+export type UseOptions = {
+  group?: string;
+  timeout?: number;
+};
+
+type Entry = UseOptions & {
+  destructible: Destructible;
+};
 
 export class Autodestructible {
-  private _destructibles: Destructible[];
+  private _clock: Clock;
+  private _destructibles: Entry[];
   
-  constructor() {
+  // the clock only runs the timeouts given to use()
+  constructor(clock: Clock = systemClock) {
+    this._clock = clock;
     this._destructibles = [];
   }
   
-  protected use<T extends Destructible>(destructible: T): T {
-    this._destructibles.push(destructible);
+  protected use<T extends Destructible>(destructible: T, options?: UseOptions): T {
+    this._destructibles.push({ destructible, ...options });
     
     return destructible;
   }
   
   protected release(disposable: Destructible): void {
-    this._destructibles.splice(this._destructibles.indexOf(disposable), 1);
+    const index = this._destructibles.findIndex(entry => entry.destructible == disposable);
+    
+    this._destructibles.splice(index, 1);
   }
   
+  // children are destroyed in reverse order, except that adjacent children
+  // of the same group go down together; a failing or hanging child does not
+  // keep the rest from being destroyed
   public async destroy(): Promise<void> {
-    for (let i = this._destructibles.length - 1; i >= 0; i--) {
-      await this._destructibles[i].destroy();
+    const errors: unknown[] = [];
+    
+    let i = this._destructibles.length - 1;
+    
+    while (i >= 0) {
+      const group = this._destructibles[i].group;
+      const batch: Entry[] = [this._destructibles[i--]];
+      
+      while (group != undefined && i >= 0 && this._destructibles[i].group == group) {
+        batch.push(this._destructibles[i--]);
+      }
+      
+      const results = await Promise.allSettled(batch.map(entry => destroyWithin(entry, this._clock)));
+      
+      for (const result of results) {
+        if (result.status == 'rejected') {
+          errors.push(result.reason);
+        }
+      }
+    }
+    
+    if (errors.length > 0) {
+      throw new OvernatsAggregateError('destroy failed', errors);
     }
   }
 }
+
+async function destroyWithin(entry: Entry, clock: Clock): Promise<void> {
+  const { destructible, timeout } = entry;
+  
+  if (timeout == undefined) {
+    await destructible.destroy();
+    
+    return;
+  }
+  
+  let expire: (err: unknown) => void = () => {};
+  
+  const expired = new Promise<never>((resolve, reject) => {
+    expire = reject;
+  });
+  const timer = clock.setTimeout(() => {
+    expire(new OvernatsError('destroy timed out', { details: { timeout } }));
+  }, timeout);
+  
+  try {
+    await Promise.race([destructible.destroy(), expired]);
+  } finally {
+    clock.clearTimeout(timer);
+  }
+}
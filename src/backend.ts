@@ -1,34 +1,66 @@
+import { setMaxListeners } from 'node:events';
 import {
-  type Codec,
-  type NatsConnection,
-  type JetStreamClient,
-  type JetStreamManager,
-  type StreamInfo,
-  type ConsumerInfo,
+  type Status,
+  type MsgHdrs,
   RetentionPolicy,
   StorageType,
   DiscardPolicy,
   AckPolicy,
   DeliverPolicy,
-  StringCodec,
+  headers as natsHeaders,
 } from 'nats';
 import {
-  type AsyncCallback,
+  type Callback,
   type UseCallback,
   type ReturnCallback,
   type ErrorCallback,
   type Destructible,
   type OvernatsGlobalOptions,
 } from './types';
+import {
+  type CoreConnection,
+  type JsClient,
+  type JsManager,
+  type JsStreamInfo,
+  type JsConsumerInfo,
+} from './connection';
 import { OvernatsError, deserializeError } from './errors';
+import { type MessageCodec, Codecs } from './codec';
+import { type Clock, systemClock } from './clock';
+import { type Tracer, noopTracer, injectTrace, withSpan } from './tracing';
+import { type Metrics, noopMetrics } from './metrics';
+import { type Logger, noopLogger } from './logger';
+import {
+  type ConnectionEvents,
+  type ConnectionEventName,
+  type EventListener,
+  Emitter,
+  statusToEvent,
+} from './events';
+import { type HealthReporter, Health } from './health';
+import {
+  type HeadersRecord,
+  TIMEOUT_HEADER,
+  CALLER_APP_HEADER,
+  CALLER_CLIENT_HEADER,
+  REQUEST_ID_HEADER,
+  readHeaders,
+  writeHeaders,
+} from './headers';
+import { type Schema, assertParams, assertResult } from './schema';
 import {
   type RetryOptions,
   retry,
   rootCause,
+  withSignal,
+  nanoid,
 } from './utils';
 import { Autoabortable, AutoabortableError } from './autoabortable';
 import { type SchedulerCallback, Scheduler } from './scheduler';
 import { type TimerCallback, Timer } from './timer';
+import { type LockCallback, type LockOptions } from './lease';
+import { Semaphore } from './semaphore';
+import { type LeaderRecord, type LeaderCallbacks, Leader } from './leader';
 import { type SummonCallback, type SummonerMoreOptions, Summoner } from './summoner';
 import { Listener } from './listener';
 import {
@@ -36,41 +68,93 @@ import {
   type SubscriptionCallback,
   Subscription,
 } from './subscription';
-import { Service } from './service';
+import { type ServiceBackendOptions, Service } from './service';
 import { type BucketBackendOptions, Bucket } from './bucket';
 import { type SpawnCallback, Spawner } from './spawner';
 import { type ProducerSpawnCallback, Producer } from './producer';
 import { type ConsumerCallback, Consumer } from './consumer';
 
 export type BackendOptions = {
-  core: NatsConnection;
+  core: CoreConnection;
   options?: Partial<OvernatsGlobalOptions>;
+  codec?: MessageCodec;
+  codecs?: MessageCodec[];
+  clock?: Clock;
+  tracer?: Tracer;
+  metrics?: Metrics;
+  logger?: Logger;
   uncaughtException: ErrorCallback;
 };
 
+export type CallOptions<P = unknown, R = unknown> = {
+  timeout?: number;
+  deadline?: number;
+  signal?: AbortSignal;
+  params?: Schema<P>;
+  result?: Schema<R>;
+  headers?: HeadersRecord;
+  requestId?: string;
+  caller?: CallCaller;
+};
+
+export type CallCaller = {
+  app: string;
+  client: string;
+};
+
+export type CallResponse<R> = {
+  result: R;
+  headers: HeadersRecord;
+};
+
 export class Backend {
   public autoabortable: Autoabortable;
-  public core: NatsConnection;
-  public js!: JetStreamClient;
-  public jsm!: JetStreamManager;
+  public core: CoreConnection;
+  public js!: JsClient;
+  public jsm!: JsManager;
   public locks!: Bucket<void>;
-  public codec: Codec<string>;
+  public codecs: Codecs;
+  public clock: Clock;
+  public tracer: Tracer;
+  public metrics: Metrics;
+  public logger: Logger;
+  public events: Emitter<ConnectionEvents>;
+  public health: Health;
   public options: OvernatsGlobalOptions;
   public uncaughtException: ErrorCallback;
+  private _shutdown: AbortController;
+  private _statusListener!: Listener<Status>;
+  private _connectionHealth!: HealthReporter;
   
   constructor(options: BackendOptions) {
     const {
       core,
       options: globalOptions,
+      codec,
+      codecs,
+      clock = systemClock,
+      tracer = noopTracer,
+      metrics = noopMetrics,
+      logger = noopLogger,
       uncaughtException,
     } = options;
     
     this.autoabortable = new Autoabortable();
+    this._shutdown = new AbortController();
+    // every timer, lease and spawned child links to it
+    setMaxListeners(0, this._shutdown.signal);
     this.core = core;
-    this.codec = StringCodec();
+    this.codecs = new Codecs({ codec, codecs });
+    this.clock = clock;
+    this.tracer = tracer;
+    this.metrics = metrics;
+    this.logger = logger;
+    this.events = new Emitter({ trapdoor: this });
+    this.health = new Health({ clock });
     this.options = Object.assign({
       heartbeatInterval: 3000, //30_000,
       lockTimeout: 10_000,
+      callTimeout: 1_000,
     }, globalOptions);
     this.uncaughtException = err => {
       if (rootCause(err) instanceof AutoabortableError) {
@@ -81,7 +165,41 @@ export class Backend {
     };
   }
   
+  private async _status(status: Status): Promise<void> {
+    const event = statusToEvent(status);
+    if (!event) {
+      return;
+    }
+    
+    const [name, data] = event;
+    
+    if (name == 'disconnect') {
+      this._connectionHealth.set('starting', 'disconnected');
+    } else if (name == 'reconnect') {
+      this._connectionHealth.set('ok');
+    }
+    
+    if (name == 'disconnect' || name == 'lameDuck' || name == 'slowConsumer' || name == 'error') {
+      this.logger.warn(`connection ${name}`, data);
+    } else {
+      this.logger.info(`connection ${name}`, data);
+    }
+    
+    this._emit(event);
+  }
+  
+  // keeps the name and the data of the event correlated, which they no
+  // longer are once the tuple is destructured
+  private _emit<K extends ConnectionEventName>([name, data]: [K, ConnectionEvents[K]]): void {
+    this.events.emit(name, data);
+  }
+  
   public async init(): Promise<void> {
+    this._connectionHealth = this.health.reporter('connection', 'ok');
+    this._statusListener = await this.listen('status', this.core.status(), async status => {
+      await this._status(status);
+    });
+    
     this.js = this.core.jetstream();
     this.jsm = await this.core.jetstreamManager();
     this.locks = await this.bucket('locks', {
@@ -91,22 +209,61 @@ export class Backend {
     });
   }
   
+  public get signal(): AbortSignal {
+    return this._shutdown.signal;
+  }
+  
+  // tells handlers and callbacks that the app is going down, while leaving
+  // the connection up for them to finish
+  public abort(): void {
+    if (!this._shutdown.signal.aborted) {
+      this._shutdown.abort(new AutoabortableError());
+    }
+  }
+  
   public async destroy(): Promise<void> {
+    this.abort();
     this.autoabortable.abort();
     await this.core.drain();
+    await this._statusListener.destroy();
+    await this._connectionHealth.destroy();
   }
   
-  public encode(data: unknown): Uint8Array {
-    return this.codec.encode(JSON.stringify(data));
+  // closes the connection without draining, failing everything in flight
+  public async close(): Promise<void> {
+    this.abort();
+    this.autoabortable.abort();
+    await this.core.close();
   }
   
-  public decode(data: Uint8Array): unknown {
-    const value = (data.length > 0) ? JSON.parse(this.codec.decode(data)) : undefined;
-    
-    return value;
+  public on<K extends ConnectionEventName>(
+    event: K,
+    listener: EventListener<ConnectionEvents[K]>,
+  ): Callback {
+    return this.events.on(event, listener);
+  }
+  
+  public registerCodec(codec: MessageCodec): void {
+    this.codecs.register(codec);
+  }
+  
+  public encode(data: unknown, headers?: MsgHdrs): Uint8Array {
+    return this.codecs.encode(data, headers);
+  }
+  
+  public decode(data: Uint8Array, headers?: MsgHdrs): unknown {
+    return this.codecs.decode(data, headers);
+  }
+  
+  public encodeValue(data: unknown): Uint8Array {
+    return this.codecs.encodeFramed(data);
   }
   
-  public async jsStream(name: string): Promise<StreamInfo> {
+  public decodeValue(data: Uint8Array): unknown {
+    return this.codecs.decodeFramed(data);
+  }
+  
+  public async jsStream(name: string): Promise<JsStreamInfo> {
     const streamInfo = await this.jsm.streams.add({
       name: name.replaceAll('.', '_'),
       retention: RetentionPolicy.Interest,
@@ -125,7 +282,7 @@ export class Backend {
     return streamInfo;
   }
   
-  public async jsConsumer(stream: string, name: string): Promise<ConsumerInfo> {
+  public async jsConsumer(stream: string, name: string): Promise<JsConsumerInfo> {
     const consumerInfo = await this.jsm.consumers.add(stream.replaceAll('.', '_'), {
       ack_policy: AckPolicy.Explicit,
       deliver_policy: DeliverPolicy.New,
@@ -137,6 +294,12 @@ export class Backend {
     return consumerInfo;
   }
   
+  // unlike jsConsumer, fails when the consumer does not exist instead of
+  // creating it again
+  public async jsConsumerInfo(stream: string, name: string): Promise<JsConsumerInfo> {
+    return await this.jsm.consumers.info(stream.replaceAll('.', '_'), name.replaceAll('.', '_'));
+  }
+  
   public async listen<T>(
     name: string,
     iterable: AsyncIterable<T>,
@@ -144,6 +307,7 @@ export class Backend {
   ): Promise<Listener<T>> {
     const listener = new Listener({
       trapdoor: this,
+      metrics: this.metrics,
       name,
       iterable,
       callback,
@@ -155,7 +319,16 @@ export class Backend {
   }
   
   public async publish<T>(subject: string, data: T): Promise<void> {
-    this.core.publish(subject, this.encode(data));
+    await withSpan(this.tracer, `publish ${subject}`, {
+      kind: 'producer',
+      attributes: { 'overnats.subject': subject },
+    }, async () => {
+      const headers = natsHeaders();
+      
+      injectTrace(headers);
+      
+      this.core.publish(subject, this.encode(data, headers), { headers });
+    });
   }
   
   public async subscribe<T>(
@@ -175,38 +348,113 @@ export class Backend {
     return subscription;
   }
   
-  public async call<P, R>(method: string, params: P): Promise<R> {
+  private async _call<P, R>(
+    method: string,
+    params: P,
+    options?: CallOptions<P, R>,
+  ): Promise<CallResponse<R>> {
+    const {
+      deadline,
+      signal,
+      headers: record,
+      requestId = nanoid(),
+      caller,
+    } = options ?? {};
+    
+    let timeout = options?.timeout ?? this.options.callTimeout;
+    
+    if (deadline != undefined) {
+      timeout = Math.min(timeout, deadline - this.clock.now());
+    }
+    
+    let response: unknown;
+    let responseHeaders: HeadersRecord;
+    
     try {
-      const message = await this.core.request(method, this.encode(params));
-      const response = this.decode(message.data);
+      if (timeout <= 0) {
+        throw new OvernatsError('deadline exceeded');
+      }
       
-      if (response && typeof response == 'object') {
-        if ('result' in response) {
-          return response.result as R;
-        }
-        
-        if ('error' in response) {
-          throw deserializeError(response.error);
-        }
-        
-        return undefined as R;
+      // an aborted call must not reach the service at all
+      signal?.throwIfAborted();
+      
+      const headers = natsHeaders();
+      
+      writeHeaders(headers, record);
+      injectTrace(headers);
+      headers.set(TIMEOUT_HEADER, String(timeout));
+      headers.set(REQUEST_ID_HEADER, requestId);
+      
+      if (caller) {
+        headers.set(CALLER_APP_HEADER, caller.app);
+        headers.set(CALLER_CLIENT_HEADER, caller.client);
       }
       
-      throw new Error('invalid response');
+      const request = this.core.request(method, this.encode(params, headers), {
+        timeout,
+        headers,
+      });
+      const message = await withSignal(request, signal);
+      
+      response = this.decode(message.data, message.headers);
+      responseHeaders = readHeaders(message.headers);
     } catch (err) {
       throw new OvernatsError('request error', {
         cause: err,
-        details: { method },
+        details: { method, timeout, requestId },
       });
     }
+    
+    // errors raised by the remote method are rethrown as is, so that callers
+    // can tell them apart by class
+    if (response && typeof response == 'object') {
+      if ('error' in response) {
+        throw deserializeError(response.error);
+      }
+      
+      return {
+        result: ('result' in response) ? response.result as R : undefined as R,
+        headers: responseHeaders,
+      };
+    }
+    
+    throw new OvernatsError('invalid response', { details: { method, requestId } });
   }
   
-  public async service(name: string): Promise<Service> {
+  public async invoke<P, R>(
+    method: string,
+    params: P,
+    options?: CallOptions<P, R>,
+  ): Promise<CallResponse<R>> {
+    return await withSpan(this.tracer, `call ${method}`, {
+      kind: 'client',
+      attributes: { 'overnats.method': method },
+    }, async () => {
+      assertParams(options?.params, params);
+      
+      const response = await this._call(method, params, options);
+      
+      assertResult(options?.result, response.result);
+      
+      return response;
+    });
+  }
+  
+  public async call<P, R>(method: string, params: P, options?: CallOptions<P, R>): Promise<R> {
+    const { result } = await this.invoke(method, params, options);
+    
+    return result;
+  }
+  
+  public async service(name: string, options?: ServiceBackendOptions): Promise<Service> {
     const service = new Service({
       backend: this,
       name,
+      options,
     });
     
+    await service.init();
+    
     return service;
   }
   
@@ -229,6 +477,8 @@ export class Backend {
     callback: SpawnCallback<T, I>,
   ): Promise<Spawner<T, I>> {
     const spawner = new Spawner({
+      logger: this.logger,
+      signal: this.signal,
       callback,
     });
     
@@ -241,6 +491,7 @@ export class Backend {
   ): Promise<Summoner<P>> {
     const summoner = new Summoner({
       compare: options?.compare,
+      signal: this.signal,
       callback,
     });
     
@@ -281,8 +532,38 @@ export class Backend {
     return consumer;
   }
   
-  public async globalLock(key: string, callback: AsyncCallback): Promise<void> {
-    await this.locks.lock(key, callback);
+  public async globalLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this.locks.lock(key, callback, options);
+  }
+  
+  public semaphore(key: string, permits: number): Semaphore {
+    return new Semaphore({
+      bucket: this.locks,
+      key,
+      permits,
+    });
+  }
+  
+  public async leader(key: string, callbacks: LeaderCallbacks): Promise<Leader> {
+    const leader = new Leader({
+      backend: this,
+      bucket: this.locks as Bucket<unknown> as Bucket<LeaderRecord>,
+      key,
+      interval: Math.max(Math.floor(this.options.lockTimeout / 3), 1),
+      ...callbacks,
+    });
+    
+    await leader.init();
+    
+    return leader;
+  }
+  
+  public async globalReadLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this.locks.readLock(key, callback, options);
+  }
+  
+  public async globalWriteLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this.locks.writeLock(key, callback, options);
   }
   
   public async retry<T>(
@@ -290,11 +571,11 @@ export class Backend {
     options?: Partial<RetryOptions>,
   ): Promise<T> {
     if (options?.signal) {
-      return await retry(callback, options);
+      return await retry(callback, { clock: this.clock, ...options });
     }
     
     return await this.autoabortable.execute(async signal => {
-      return await retry(callback, { ...options, signal });
+      return await retry(callback, { clock: this.clock, ...options, signal });
     });
   }
   
@@ -305,10 +586,11 @@ export class Backend {
   ): Promise<Timer> {
     const timer = new Timer({
       backend: this,
+      name,
       interval,
-      callback: async now => {
+      callback: async (now, signal) => {
         try {
-          await callback(now);
+          await callback(now, signal);
         } catch (err) {
           this.uncaughtException(new OvernatsError('timer callback failed', {
             cause: err,
@@ -325,6 +607,7 @@ export class Backend {
   
   public async localScheduler(name: string, callback: SchedulerCallback): Promise<Scheduler> {
     const scheduler = new Scheduler({
+      clock: this.clock,
       callback: async (now, schedule) => {
         try {
           await callback(now, schedule);
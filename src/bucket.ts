@@ -1,11 +1,18 @@
-import { type KV, StorageType } from 'nats';
-import { type AsyncCallback, type MutateCallback, type MutateUsingCallback } from './types';
-import { OvernatsError } from './errors';
-import { isWrongLastSequenceError, tryWithFallback, anyway, retry } from './utils';
+import { StorageType } from 'nats';
+import { type MutateCallback, type MutateUsingCallback } from './types';
+import { type KvStore } from './connection';
+import { OvernatsError, OvernatsLeaseLostError } from './errors';
+import { isWrongLastSequenceError, anyway, retry, nanoid } from './utils';
 import { Autodestructible } from './autodestructible';
+import { type LockCallback, type LockOptions, Lease } from './lease';
+import { type Timer } from './timer';
 import { type Backend } from './backend';
 import { type WatcherCallback, Watcher } from './watcher';
 
+// the records behind read/write locks and semaphores live apart from the keys
+// taken with lock(), which cannot start with the prefix
+const RESERVED_PREFIX = '_overnats.';
+
 export type BucketMutateOptions = {
   revision?: number;
 };
@@ -33,10 +40,10 @@ export class Bucket<T> extends Autodestructible {
   private _backend: Backend;
   private _name: string;
   private _options: Partial<BucketBackendOptions>;
-  private _kv!: KV;
+  private _kv!: KvStore;
   
   constructor(options: BucketOptions) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
@@ -49,6 +56,10 @@ export class Bucket<T> extends Autodestructible {
     this._options = backendOptions;
   }
   
+  public get name(): string {
+    return this._name;
+  }
+  
   public async init(): Promise<void> {
     this._kv = await this._backend.js.views.kv(this._name.replaceAll('.', '_'), {
       replicas: this._options.replicas,
@@ -83,15 +94,26 @@ export class Bucket<T> extends Autodestructible {
       return undefined;
     }
     
-    return this._backend.decode(entry.value) as T;
+    return this._backend.decodeValue(entry.value) as T;
   }
   
   public async put(key: string, value: T): Promise<void> {
-    await this._kv.put(key, this._backend.encode(value));
+    await this._kv.put(key, this._backend.encodeValue(value));
   }
   
-  public async delete(key: string): Promise<void> {
-    await this._kv.delete(key);
+  public async delete(key: string, options?: BucketMutateOptions): Promise<void> {
+    await this._kv.delete(key, { previousSeq: options?.revision });
+  }
+  
+  // fails with a wrong last sequence error when the key exists
+  public async create(key: string, value: T): Promise<number> {
+    return await this._kv.create(key, this._backend.encodeValue(value));
+  }
+  
+  // fails with a wrong last sequence error when the key has moved past the
+  // revision
+  public async update(key: string, value: T, revision: number): Promise<number> {
+    return await this._kv.update(key, this._backend.encodeValue(value), revision);
   }
   
   public async mutate(
@@ -101,16 +123,16 @@ export class Bucket<T> extends Autodestructible {
     const entry = await this._kv.get(key);
     
     if (entry) {
-      const prev = (entry.value.length > 0) ? this._backend.decode(entry.value) as T : undefined;
+      const prev = (entry.value.length > 0) ? this._backend.decodeValue(entry.value) as T : undefined;
       const next = await callback(prev);
       
-      await this._kv.update(key, this._backend.encode(next), entry.revision);
+      await this._kv.update(key, this._backend.encodeValue(next), entry.revision);
       
       return next;
     } else {
       const next = await callback(undefined);
       
-      await this._kv.create(key, this._backend.encode(next));
+      await this._kv.create(key, this._backend.encodeValue(next));
       
       return next;
     }
@@ -124,14 +146,14 @@ export class Bucket<T> extends Autodestructible {
       const entry = await this._kv.get(key);
       
       if (entry) {
-        const prev = (entry.value.length > 0) ? this._backend.decode(entry.value) as T : undefined;
+        const prev = (entry.value.length > 0) ? this._backend.decodeValue(entry.value) as T : undefined;
         
         await callback(prev, async next => {
-          await this._kv.update(key, this._backend.encode(next), entry.revision);
+          await this._kv.update(key, this._backend.encodeValue(next), entry.revision);
         });
       } else {
         await callback(undefined, async next => {
-          await this._kv.create(key, this._backend.encode(next));
+          await this._kv.create(key, this._backend.encodeValue(next));
         });
       }
     }, {
@@ -177,6 +199,7 @@ export class Bucket<T> extends Autodestructible {
     
     const watcher = new Watcher<T>({
       backend: this._backend,
+      bucket: this._name,
       kv: this._kv,
       filter,
       callback,
@@ -191,46 +214,278 @@ export class Bucket<T> extends Autodestructible {
     return this.use(watcher);
   }
   
-  public async lock(key: string, callback: AsyncCallback): Promise<void> {
+  private async _create(key: string, value?: unknown): Promise<number | undefined> {
     try {
-      await retry(async () => {
-        const revision = await tryWithFallback(async () => {
-          return await this._kv.create(key, this._backend.encode(undefined));
-        }, async err => {
-          if (isWrongLastSequenceError(err)) {
-            throw new Error('oops');
-          }
-          
-          throw err;
-        });
+      return await this._kv.create(key, this._backend.encodeValue(value));
+    } catch (err) {
+      if (isWrongLastSequenceError(err)) {
+        return undefined;
+      }
+      
+      throw err;
+    }
+  }
+  
+  private async _exists(key: string): Promise<boolean> {
+    const entry = await this._kv.get(key);
+    
+    return !!entry && entry.operation == 'PUT';
+  }
+  
+  // repeats the attempt until it stops coming back empty or the timeout
+  // runs out
+  private async _wait<R>(
+    key: string,
+    started: number,
+    options: LockOptions,
+    attempt: () => Promise<R | undefined>,
+  ): Promise<R> {
+    const { clock, metrics } = this._backend;
+    const {
+      timeout = 0,
+      signal,
+    } = options;
+    
+    try {
+      return await retry(async () => {
+        const result = await attempt();
+        if (result == undefined) {
+          throw new LockBusyError();
+        }
         
-        await anyway(async () => {
-          await callback();
-        }, async () => {
-          try {
-            await this._kv.delete(key, { previousSeq: revision });
-          } catch (err) {
-            if (isWrongLastSequenceError(err)) {
-              return;
-            }
-            
-            throw err;
-          }
-        });
+        return result;
       }, {
-        when: err => err instanceof Error && err.message == 'oops',
-        // retries: 20,
-        retries: 0,
+        when: err => err instanceof LockBusyError && clock.now() - started < timeout,
+        retries: Infinity,
+        signal,
+        clock,
+        minDelay: 50,
         maxDelay: 2_000,
       });
     } catch (err) {
-      if (err instanceof Error && err.message == 'oops') {
-        throw new OvernatsError('lock failed', { details: { key } });
+      if (err instanceof LockBusyError) {
+        metrics.increment('bucket_lock_failures_total', { bucket: this._name });
+        
+        throw new OvernatsError('lock failed', { details: { key, timeout } });
       }
       
       throw err;
     }
   }
+  
+  // a lock counts as taken once its holder may go ahead, which for a writer
+  // is only after the readers that came first are done
+  private _taken(started: number): void {
+    const { clock, metrics } = this._backend;
+    
+    metrics.observe('bucket_lock_wait_seconds', (clock.now() - started) / 1000, {
+      bucket: this._name,
+    });
+  }
+  
+  private async _lease(key: string, revision: number, value?: unknown): Promise<Lease> {
+    const lease = new Lease({
+      backend: this._backend,
+      bucket: this as Bucket<unknown>,
+      key,
+      value,
+      revision,
+      ttl: this._options.ttl ?? 0,
+    });
+    
+    await lease.init();
+    
+    return lease;
+  }
+  
+  private async _hold(lease: Lease, callback: LockCallback): Promise<void> {
+    await anyway(async () => {
+      await callback(lease);
+    }, async () => {
+      await lease.destroy();
+    });
+    
+    // the callback may have finished without noticing the abort, and its
+    // work was not exclusive anymore
+    if (lease.lost) {
+      throw new OvernatsLeaseLostError('lease lost', { details: { key: lease.key } });
+    }
+  }
+  
+  // takes the key without waiting for holders that outlive a single
+  // callback, which then destroy the lease themselves
+  public async tryLease(key: string, value: T): Promise<Lease | undefined> {
+    assertLockKey(key);
+    
+    const started = this._backend.clock.now();
+    const revision = await this._create(key, value);
+    if (revision == undefined) {
+      return undefined;
+    }
+    
+    this._taken(started);
+    
+    return await this._lease(key, revision, value);
+  }
+  
+  // waits up to the timeout for the key to be released, then holds it
+  // under a lease renewed for as long as the callback runs
+  public async lock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    assertLockKey(key);
+    
+    const started = this._backend.clock.now();
+    const revision = await this._wait(key, started, options ?? {}, async () => {
+      return await this._create(key);
+    });
+    
+    this._taken(started);
+    
+    await this._hold(await this._lease(key, revision), callback);
+  }
+  
+  // the permit count is kept next to the slots, so that callers disagreeing
+  // about it fail instead of each enforcing a limit of their own; it expires
+  // with the bucket ttl once no slot is held anymore
+  private async _permits(key: string, permits: number): Promise<void> {
+    const permitsKey = `${RESERVED_PREFIX}semaphore.${key}.permits`;
+    if (await this._create(permitsKey, permits) != undefined) {
+      return;
+    }
+    
+    const current = await this.get(permitsKey) as unknown;
+    if (current != undefined && current != permits) {
+      throw new OvernatsError('semaphore permits mismatch', { details: { key, permits, current } });
+    }
+  }
+  
+  // holders rewrite the count as often as their leases renew the slots
+  private async _keepPermits(key: string, permits: number): Promise<Timer | undefined> {
+    const ttl = this._options.ttl ?? 0;
+    if (ttl <= 0) {
+      return undefined;
+    }
+    
+    const permitsKey = `${RESERVED_PREFIX}semaphore.${key}.permits`;
+    const interval = Math.max(Math.floor(ttl / 3), 1);
+    
+    return await this._backend.localTimer(`semaphore.${key}`, interval, async () => {
+      await this._kv.put(permitsKey, this._backend.encodeValue(permits));
+    });
+  }
+  
+  // counts the permit slots of a semaphore taken right now
+  public async held(key: string): Promise<number> {
+    const slots = await this.keys(`${RESERVED_PREFIX}semaphore.${key}.permit.*`);
+    
+    return slots.length;
+  }
+  
+  // takes whichever of the permit slots is free, so that a crashed holder
+  // frees its slot once the lease expires
+  public async acquire(
+    key: string,
+    permits: number,
+    callback: LockCallback,
+    options?: LockOptions,
+  ): Promise<void> {
+    const started = this._backend.clock.now();
+    const offset = Math.floor(Math.random() * permits);
+    const slots = `${RESERVED_PREFIX}semaphore.${key}.permit`;
+    
+    await this._permits(key, permits);
+    
+    const [slot, revision] = await this._wait(key, started, options ?? {}, async () => {
+      // one listing tells which slots are worth trying, rather than trying
+      // every one of them in turn while they are all held
+      const held = new Set(await this.keys(`${slots}.*`));
+      
+      for (let i = 0; i < permits; i++) {
+        const slot = `${slots}.${(offset + i) % permits}`;
+        if (held.has(slot)) {
+          continue;
+        }
+        
+        const revision = await this._create(slot);
+        if (revision != undefined) {
+          return [slot, revision] as const;
+        }
+      }
+      
+      return undefined;
+    });
+    
+    this._taken(started);
+    
+    await this._hold(await this._lease(slot, revision), async lease => {
+      const timer = await this._keepPermits(key, permits);
+      
+      await anyway(async () => {
+        await callback(lease);
+      }, async () => {
+        await timer?.destroy();
+      });
+    });
+  }
+  
+  // readers hold a key each and writers share one, so a waiting writer
+  // keeps new readers out while the current ones finish
+  public async readLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    const started = this._backend.clock.now();
+    const writer = `${RESERVED_PREFIX}rw.${key}.write`;
+    const reader = `${RESERVED_PREFIX}rw.${key}.read.${nanoid()}`;
+    const revision = await this._wait(key, started, options ?? {}, async () => {
+      if (await this._exists(writer)) {
+        return undefined;
+      }
+      
+      const revision = await this._create(reader);
+      
+      // a writer that came in between has not seen this reader yet
+      if (revision != undefined && await this._exists(writer)) {
+        await this._kv.delete(reader, { previousSeq: revision });
+        
+        return undefined;
+      }
+      
+      return revision;
+    });
+    
+    this._taken(started);
+    
+    await this._hold(await this._lease(reader, revision), callback);
+  }
+  
+  public async writeLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    const started = this._backend.clock.now();
+    const writer = `${RESERVED_PREFIX}rw.${key}.write`;
+    const revision = await this._wait(key, started, options ?? {}, async () => {
+      return await this._create(writer);
+    });
+    
+    // new readers stay out once the writer is in, so without a timeout it
+    // waits for the current ones however long they take
+    const drain = { ...options, timeout: options?.timeout || Infinity };
+    
+    await this._hold(await this._lease(writer, revision), async lease => {
+      await this._wait(key, started, drain, async () => {
+        const readers = await this.keys(`${RESERVED_PREFIX}rw.${key}.read.*`);
+        
+        return (readers.length == 0) ? true : undefined;
+      });
+      
+      this._taken(started);
+      
+      await callback(lease);
+    });
+  }
+}
+
+class LockBusyError extends Error {}
+
+function assertLockKey(key: string): void {
+  if (key.startsWith(RESERVED_PREFIX)) {
+    throw new OvernatsError('reserved lock key', { details: { key } });
+  }
 }
 
 export type BucketSliceOptions = {
@@ -1,11 +1,23 @@
-import { type AsyncCallback, type ReturnCallback, type Destructible } from './types';
+import { type ReturnCallback, type Destructible } from './types';
+import { OvernatsError } from './errors';
 import { type RetryOptions } from './utils';
+import { type Logger } from './logger';
 import { Autodestructible } from './autodestructible';
-import { type Backend } from './backend';
+import { type CallOptions, type CallResponse, type Backend } from './backend';
 import { type SchedulerCallback, type Scheduler } from './scheduler';
 import { type TimerCallback, type Timer } from './timer';
+import { type LockCallback, type LockOptions } from './lease';
+import { type Semaphore } from './semaphore';
+import { type LeaderCallbacks, type Leader } from './leader';
 import { type SubscriptionCallback, type Subscription } from './subscription';
-import { type Service } from './service';
+import { type ServiceBackendOptions, type Service } from './service';
+import {
+  type ContractMethods,
+  type Contract,
+  type ContractProxy,
+  ContractService,
+  contractProxy,
+} from './contract';
 import {
   type BucketBackendOptions,
   type Bucket,
@@ -23,30 +35,40 @@ export type ClientSubscribeOptions = {
 
 export type ClientOptions = {
   backend: Backend;
+  app?: string;
   name: string;
 };
 
 export class Client extends Autodestructible {
   protected _backend: Backend;
+  protected _app: string;
   protected _name: string;
+  protected _logger: Logger;
   protected _bucket: Bucket<unknown> | undefined;
   
   public local: ClientLocal;
   
   constructor(options: ClientOptions) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
       name,
+      app = name.split('.')[0],
     } = options;
     
     this._backend = backend;
+    this._app = app;
     this._name = name;
+    this._logger = backend.logger.child({ client: name });
     
     this.local = this.use(new ClientLocal({ backend, name }));
   }
   
+  public get logger(): Logger {
+    return this._logger;
+  }
+  
   protected async _getDefaultBucket(): Promise<Bucket<unknown>> {
     if (!this._bucket) {
       this._bucket = this.use(await this.bucket('default'));
@@ -74,15 +96,57 @@ export class Client extends Autodestructible {
     return this.use(subscription);
   }
   
-  public async call<P, R>(method: string, params: P): Promise<R> {
-    return await this._backend.call(`app.${method}`, params);
+  public async call<P, R>(method: string, params: P, options?: CallOptions<P, R>): Promise<R> {
+    const { result } = await this.invoke(method, params, options);
+    
+    return result;
   }
   
-  public async service(name: string): Promise<Service> {
-    const serviceName = `app.${this._name}.${name}`;
-    const service = await this._backend.service(serviceName);
+  public async invoke<P, R>(
+    method: string,
+    params: P,
+    options?: CallOptions<P, R>,
+  ): Promise<CallResponse<R>> {
+    return await this._backend.invoke(`app.${method}`, params, {
+      ...options,
+      caller: { app: this._app, client: this._name },
+    });
+  }
+  
+  public async service(name: string, options?: ServiceBackendOptions): Promise<Service>;
+  public async service<M extends ContractMethods>(
+    contract: Contract<M>,
+    options?: ServiceBackendOptions,
+  ): Promise<ContractService<M>>;
+  public async service<M extends ContractMethods>(
+    nameOrContract: string | Contract<M>,
+    options?: ServiceBackendOptions,
+  ): Promise<Service | ContractService<M>> {
+    if (typeof nameOrContract == 'string') {
+      const serviceName = `app.${this._name}.${nameOrContract}`;
+      const service = await this._backend.service(serviceName, options);
+      
+      return this.use(service);
+    }
+    
+    const contract = nameOrContract;
+    const prefix = `${this._name}.`;
+    
+    if (!contract.name.startsWith(prefix)) {
+      throw new OvernatsError('contract belongs to another client', {
+        details: { contract: contract.name, client: this._name },
+      });
+    }
+    
+    const service = await this.service(contract.name.slice(prefix.length), options);
     
-    return this.use(service);
+    return new ContractService({ contract, service });
+  }
+  
+  public proxy<M extends ContractMethods>(contract: Contract<M>): ContractProxy<M> {
+    return contractProxy(contract, async (method, params, options) => {
+      return await this.call(method, params, options);
+    });
   }
   
   public async bucket<T>(
@@ -107,8 +171,26 @@ export class Client extends Autodestructible {
     return bucket.cell(key);
   }
   
-  public async lock(key: string, callback: AsyncCallback): Promise<void> {
-    await this._backend.globalLock(`app.${this._name}.${key}`, callback);
+  public async lock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this._backend.globalLock(`app.${this._name}.${key}`, callback, options);
+  }
+  
+  public semaphore(key: string, permits: number): Semaphore {
+    return this._backend.semaphore(`app.${this._name}.${key}`, permits);
+  }
+  
+  public async leader(name: string, callbacks: LeaderCallbacks): Promise<Leader> {
+    const leader = await this._backend.leader(`app.${this._name}.${name}`, callbacks);
+    
+    return this.use(leader);
+  }
+  
+  public async readLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this._backend.globalReadLock(`app.${this._name}.${key}`, callback, options);
+  }
+  
+  public async writeLock(key: string, callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this._backend.globalWriteLock(`app.${this._name}.${key}`, callback, options);
   }
   
   public async spawner<T, I extends Destructible>(
@@ -159,7 +241,7 @@ export class ClientLocal extends Autodestructible {
   private _name: string;
   
   constructor(options: ClientLocalOptions) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
@@ -0,0 +1,124 @@
+import { type Callback } from './types';
+
+export type ClockTimer = object;
+
+export type Clock = {
+  now(): number;
+  setTimeout(callback: Callback, delay: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+};
+
+export class SystemClock implements Clock {
+  public now(): number {
+    return Date.now();
+  }
+  
+  public setTimeout(callback: Callback, delay: number): ClockTimer {
+    return setTimeout(callback, delay);
+  }
+  
+  public clearTimeout(timer: ClockTimer): void {
+    clearTimeout(timer as NodeJS.Timeout);
+  }
+}
+
+export const systemClock = new SystemClock();
+
+type TestClockTimer = {
+  at: number;
+  order: number;
+  callback: Callback;
+};
+
+export class TestClock implements Clock {
+  private _now: number;
+  private _order: number;
+  private _timers: Set<TestClockTimer>;
+  
+  constructor(start: number = 0) {
+    this._now = start;
+    this._order = 0;
+    this._timers = new Set();
+  }
+  
+  private _earliest(until: number): TestClockTimer | undefined {
+    let earliest: TestClockTimer | undefined;
+    
+    for (const timer of this._timers) {
+      if (timer.at > until) {
+        continue;
+      }
+      
+      if (!earliest || timer.at < earliest.at) {
+        earliest = timer;
+      } else if (timer.at == earliest.at && timer.order < earliest.order) {
+        earliest = timer;
+      }
+    }
+    
+    return earliest;
+  }
+  
+  public get pending(): number {
+    return this._timers.size;
+  }
+  
+  public now(): number {
+    return this._now;
+  }
+  
+  public setTimeout(callback: Callback, delay: number): ClockTimer {
+    const timer = {
+      at: this._now + Math.max(delay, 0),
+      order: this._order++,
+      callback,
+    };
+    
+    this._timers.add(timer);
+    
+    return timer;
+  }
+  
+  public clearTimeout(timer: ClockTimer): void {
+    this._timers.delete(timer as TestClockTimer);
+  }
+  
+  // fires every timer due within the given time in order, letting promise
+  // chains started by each callback settle before moving on so that timers
+  // they schedule are picked up within the same advance
+  public async advance(ms: number): Promise<void> {
+    const until = this._now + ms;
+    
+    await flush();
+    
+    while (true) {
+      const timer = this._earliest(until);
+      if (!timer) {
+        break;
+      }
+      
+      this._timers.delete(timer);
+      this._now = timer.at;
+      timer.callback();
+      
+      await flush();
+    }
+    
+    this._now = until;
+  }
+  
+  public async next(): Promise<void> {
+    const timer = this._earliest(Infinity);
+    if (!timer) {
+      return;
+    }
+    
+    await this.advance(timer.at - this._now);
+  }
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+}
@@ -0,0 +1,192 @@
+import { type MsgHdrs, StringCodec } from 'nats';
+import { ExtensionCodec, encode, decode } from '@msgpack/msgpack';
+import { OvernatsError } from './errors';
+
+export const CODEC_HEADER = 'Overnats-Codec';
+
+export type MessageCodec = {
+  name: string;
+  encode(value: unknown): Uint8Array;
+  decode(data: Uint8Array): unknown;
+};
+
+export class JsonCodec implements MessageCodec {
+  public readonly name = 'json';
+  private _string = StringCodec();
+  
+  public encode(value: unknown): Uint8Array {
+    return this._string.encode(JSON.stringify(value) ?? '');
+  }
+  
+  public decode(data: Uint8Array): unknown {
+    return (data.length > 0) ? JSON.parse(this._string.decode(data)) : undefined;
+  }
+}
+
+const EXT_MAP = 1;
+const EXT_SET = 2;
+const EXT_BIGINT = 3;
+
+export class MsgpackCodec implements MessageCodec {
+  public readonly name = 'msgpack';
+  private _extensions: ExtensionCodec;
+  
+  constructor() {
+    this._extensions = new ExtensionCodec();
+    this._extensions.register({
+      type: EXT_MAP,
+      encode: value => {
+        return (value instanceof Map) ? this.encode(Array.from(value.entries())) : null;
+      },
+      decode: data => {
+        return new Map(this.decode(data) as [unknown, unknown][]);
+      },
+    });
+    this._extensions.register({
+      type: EXT_SET,
+      encode: value => {
+        return (value instanceof Set) ? this.encode(Array.from(value.values())) : null;
+      },
+      decode: data => {
+        return new Set(this.decode(data) as unknown[]);
+      },
+    });
+    this._extensions.register({
+      type: EXT_BIGINT,
+      encode: value => {
+        return (typeof value == 'bigint') ? this.encode(value.toString()) : null;
+      },
+      decode: data => {
+        return BigInt(this.decode(data) as string);
+      },
+    });
+  }
+  
+  public encode(value: unknown): Uint8Array {
+    return encode(value, { extensionCodec: this._extensions, ignoreUndefined: true });
+  }
+  
+  public decode(data: Uint8Array): unknown {
+    return (data.length > 0) ? decode(data, { extensionCodec: this._extensions }) : undefined;
+  }
+}
+
+export class RawCodec implements MessageCodec {
+  public readonly name = 'raw';
+  
+  public encode(value: unknown): Uint8Array {
+    if (value == undefined) {
+      return new Uint8Array(0);
+    }
+    
+    if (!(value instanceof Uint8Array)) {
+      throw new OvernatsError('raw codec can only encode bytes');
+    }
+    
+    return value;
+  }
+  
+  public decode(data: Uint8Array): unknown {
+    return data;
+  }
+}
+
+export type CodecsOptions = {
+  codec?: MessageCodec;
+  codecs?: MessageCodec[];
+};
+
+export class Codecs {
+  private _default: MessageCodec;
+  private _codecs: Map<string, MessageCodec>;
+  
+  constructor(options?: CodecsOptions) {
+    const {
+      codec,
+      codecs = [],
+    } = options ?? {};
+    
+    const json = new JsonCodec();
+    
+    this._codecs = new Map();
+    
+    for (const item of [json, new MsgpackCodec(), new RawCodec(), ...codecs]) {
+      this.register(item);
+    }
+    
+    if (codec) {
+      this.register(codec);
+    }
+    
+    this._default = codec ?? json;
+  }
+  
+  public get default(): MessageCodec {
+    return this._default;
+  }
+  
+  // framed KV values keep the codec name length in a single byte
+  public register(codec: MessageCodec): void {
+    if (new TextEncoder().encode(codec.name).length > 255) {
+      throw new OvernatsError('codec name is too long', { details: { codec: codec.name } });
+    }
+    
+    this._codecs.set(codec.name, codec);
+  }
+  
+  public get(name: string): MessageCodec {
+    const codec = this._codecs.get(name);
+    if (!codec) {
+      throw new OvernatsError('unknown codec', { details: { codec: name } });
+    }
+    
+    return codec;
+  }
+  
+  public encode(value: unknown, headers?: MsgHdrs): Uint8Array {
+    if (headers) {
+      headers.set(CODEC_HEADER, this._default.name);
+    }
+    
+    return this._default.encode(value);
+  }
+  
+  public decode(data: Uint8Array, headers?: MsgHdrs): unknown {
+    const name = headers?.get(CODEC_HEADER) || 'json';
+    
+    return this.get(name).decode(data);
+  }
+  
+  // KV entries carry no headers, so values written with anything but the
+  // json codec are prefixed with a zero byte and the codec name; plain json
+  // values are left as is to stay readable by older clients
+  public encodeFramed(value: unknown): Uint8Array {
+    const codec = this._default;
+    const payload = codec.encode(value);
+    
+    if (codec.name == 'json') {
+      return payload;
+    }
+    
+    const name = new TextEncoder().encode(codec.name);
+    const framed = new Uint8Array(2 + name.length + payload.length);
+    
+    framed[0] = 0;
+    framed[1] = name.length;
+    framed.set(name, 2);
+    framed.set(payload, 2 + name.length);
+    
+    return framed;
+  }
+  
+  public decodeFramed(data: Uint8Array): unknown {
+    if (data.length == 0 || data[0] != 0) {
+      return this.get('json').decode(data);
+    }
+    
+    const length = data[1];
+    const name = new TextDecoder().decode(data.subarray(2, 2 + length));
+    
+    return this.get(name).decode(data.subarray(2 + length));
+  }
+}
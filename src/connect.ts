@@ -1,23 +1,82 @@
-import { connect as natsConnect } from 'nats';
+import { readFile } from 'node:fs/promises';
+import {
+  type ConnectionOptions,
+  type Authenticator,
+  connect as natsConnect,
+  credsAuthenticator,
+  nkeyAuthenticator,
+} from 'nats';
 import { type ErrorCallback, type OvernatsGlobalOptions } from './types';
+import { type MessageCodec } from './codec';
+import { type Clock } from './clock';
+import { type Tracer } from './tracing';
+import { type Metrics } from './metrics';
+import { type Logger, ConsoleLogger } from './logger';
 import { Backend } from './backend';
 import { App } from './app';
 
+export type ConnectTlsOptions = {
+  caFile?: string;
+  certFile?: string;
+  keyFile?: string;
+  ca?: string;
+  cert?: string;
+  key?: string;
+  handshakeFirst?: boolean;
+};
+
+export type ConnectReconnectOptions = {
+  enabled?: boolean;
+  maxAttempts?: number;
+  timeWait?: number;
+  jitter?: number;
+};
+
+export type ConnectEnv = Record<string, string | undefined>;
+
 export type ConnectOptions = {
+  servers?: string | string[];
+  user?: string;
+  pass?: string;
+  token?: string;
+  credsFile?: string;
+  nkeySeedFile?: string;
+  tls?: ConnectTlsOptions;
+  reconnect?: ConnectReconnectOptions;
+  clientName?: string;
+  env?: ConnectEnv;
   options?: Partial<OvernatsGlobalOptions>;
+  codec?: MessageCodec;
+  codecs?: MessageCodec[];
+  clock?: Clock;
+  tracer?: Tracer;
+  metrics?: Metrics;
+  logger?: Logger;
   uncaughtException?: ErrorCallback;
 };
 
 export async function connect(name: string, options?: ConnectOptions): Promise<App> {
   const {
     options: globalOptions,
-    uncaughtException = console.error,
+    codec,
+    codecs,
+    clock,
+    tracer,
+    metrics,
+    logger = new ConsoleLogger({ clock }),
+    uncaughtException = (err: unknown) => logger.error('uncaught exception', { err }),
   } = options ?? {};
   
-  const core = await natsConnect();
+  const core = await natsConnect(await connectionOptions(name, options ?? {}));
   const backend = new Backend({
     core,
     options: globalOptions,
+    codec,
+    codecs,
+    clock,
+    tracer,
+    metrics,
+    logger: logger.child({ app: name }),
     uncaughtException,
   });
   
@@ -25,3 +84,79 @@ export async function connect(name: string, options?: ConnectOptions): Promise<A
   
   return new App({ backend, name });
 }
+
+async function connectionOptions(name: string, options: ConnectOptions): Promise<ConnectionOptions> {
+  const {
+    env = process.env,
+  } = options;
+  
+  const servers = options.servers ?? list(env['NATS_URL']);
+  const user = options.user ?? env['NATS_USER'];
+  const pass = options.pass ?? env['NATS_PASSWORD'];
+  const token = options.token ?? env['NATS_TOKEN'];
+  const credsFile = options.credsFile ?? env['NATS_CREDS'];
+  const nkeySeedFile = options.nkeySeedFile ?? env['NATS_NKEY'];
+  const tls = options.tls ?? tlsFromEnv(env);
+  const reconnect = options.reconnect ?? {};
+  
+  const authenticators: Authenticator[] = [];
+  
+  if (credsFile) {
+    authenticators.push(credsAuthenticator(await readFile(credsFile)));
+  }
+  
+  if (nkeySeedFile) {
+    const seed = (await readFile(nkeySeedFile, 'utf8')).trim();
+    authenticators.push(nkeyAuthenticator(new TextEncoder().encode(seed)));
+  }
+  
+  return defined({
+    name: options.clientName ?? env['NATS_CLIENT_NAME'] ?? name,
+    servers,
+    user,
+    pass,
+    token,
+    authenticator: (authenticators.length > 0) ? authenticators : undefined,
+    tls,
+    reconnect: reconnect.enabled,
+    maxReconnectAttempts: reconnect.maxAttempts ?? integer(env['NATS_MAX_RECONNECT_ATTEMPTS']),
+    reconnectTimeWait: reconnect.timeWait ?? integer(env['NATS_RECONNECT_TIME_WAIT']),
+    reconnectJitter: reconnect.jitter,
+  });
+}
+
+// nats copies the options over its defaults, so a key that is present but
+// undefined would wipe the default out
+function defined<T extends object>(object: T): T {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as T;
+}
+
+function tlsFromEnv(env: ConnectEnv): ConnectTlsOptions | undefined {
+  const caFile = env['NATS_CA'];
+  const certFile = env['NATS_CERT'];
+  const keyFile = env['NATS_KEY'];
+  
+  if (!caFile && !certFile && !keyFile) {
+    return undefined;
+  }
+  
+  return { caFile, certFile, keyFile };
+}
+
+function list(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function integer(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const number = parseInt(value, 10);
+  
+  return Number.isNaN(number) ? undefined : number;
+}
@@ -0,0 +1,99 @@
+import {
+  type Msg,
+  type Status,
+  type PubAck,
+  type PublishOptions,
+  type RequestOptions,
+  type SubscriptionOptions,
+  type JetStreamPublishOptions,
+  type StreamConfig,
+  type ConsumerConfig,
+  type ConsumerStatus,
+  type KvOptions,
+  type KvWatchOptions,
+  type KvEntry,
+} from 'nats';
+
+// the part of the nats client that overnats relies on; a NatsConnection
+// satisfies it as is, and so does the in-memory server in memory.ts
+
+export type CoreSubscription = AsyncIterable<Msg> & {
+  unsubscribe(): void;
+  drain(): Promise<void>;
+};
+
+export type CoreConnection = {
+  publish(subject: string, data?: Uint8Array, options?: PublishOptions): void;
+  subscribe(subject: string, options?: SubscriptionOptions): CoreSubscription;
+  request(subject: string, data?: Uint8Array, options?: Partial<RequestOptions>): Promise<Msg>;
+  status(): AsyncIterable<Status>;
+  jetstream(): JsClient;
+  jetstreamManager(): Promise<JsManager>;
+  drain(): Promise<void>;
+  close(): Promise<void>;
+};
+
+export type JsMessage = {
+  subject: string;
+  data: Uint8Array;
+  headers?: Msg['headers'];
+  info: {
+    redeliveryCount: number;
+  };
+  ack(): void;
+  nak(millis?: number): void;
+};
+
+export type JsConsumerMessages = AsyncIterable<JsMessage> & {
+  status(): Promise<AsyncIterable<ConsumerStatus>>;
+  stop(): void;
+};
+
+export type JsConsumer = {
+  consume(): Promise<JsConsumerMessages>;
+};
+
+export type JsClient = {
+  publish(subject: string, data?: Uint8Array, options?: Partial<JetStreamPublishOptions>): Promise<PubAck>;
+  consumers: {
+    get(stream: string, name: string): Promise<JsConsumer>;
+  };
+  views: {
+    kv(name: string, options?: Partial<KvOptions>): Promise<KvStore>;
+  };
+};
+
+export type JsStreamInfo = {
+  config: Partial<StreamConfig>;
+};
+
+export type JsConsumerInfo = {
+  stream_name: string;
+  name: string;
+  config: Partial<ConsumerConfig>;
+};
+
+export type JsManager = {
+  streams: {
+    add(config: Partial<StreamConfig>): Promise<JsStreamInfo>;
+  };
+  consumers: {
+    add(stream: string, config: Partial<ConsumerConfig>): Promise<JsConsumerInfo>;
+    info(stream: string, name: string): Promise<JsConsumerInfo>;
+  };
+};
+
+export type KvWatch = AsyncIterable<KvEntry> & {
+  stop(): void;
+};
+
+export type KvStore = {
+  get(key: string): Promise<KvEntry | null>;
+  put(key: string, value: Uint8Array): Promise<number>;
+  create(key: string, value: Uint8Array): Promise<number>;
+  update(key: string, value: Uint8Array, revision: number): Promise<number>;
+  delete(key: string, options?: { previousSeq?: number }): Promise<void>;
+  purge(key: string, options?: { previousSeq?: number }): Promise<void>;
+  keys(filter?: string): Promise<AsyncIterable<string>>;
+  watch(options?: KvWatchOptions): Promise<KvWatch>;
+};
@@ -1,17 +1,16 @@
-import {
-  type ConsumerMessages,
-  type JsMsg,
-  type ConsumerStatus,
-  ConsumerEvents,
-} from 'nats';
-import { type ErrorCallback, type SubscribeParams, type SubscribeResult } from './types';
+import { type ConsumerStatus, ConsumerEvents } from 'nats';
+import { type Callback, type ErrorCallback, type SubscribeParams, type SubscribeResult } from './types';
+import { type JsConsumerMessages, type JsMessage } from './connection';
 import { OvernatsError } from './errors';
+import { extractTrace, withSpan } from './tracing';
 import { Autodestructible } from './autodestructible';
 import { type Listener } from './listener';
 import { type Summoner } from './summoner';
+import { type Logger } from './logger';
+import { type HealthReporter } from './health';
 import { type Backend } from './backend';
 
-export type ConsumerCallback<T> = (event: T) => Promise<void>;
+export type ConsumerCallback<T> = (event: T, signal: AbortSignal) => Promise<void>;
 
 export type ConsumerOptions<P, E> = {
   backend: Backend;
@@ -23,14 +22,16 @@ export type ConsumerOptions<P, E> = {
 
 export class Consumer<P, E> extends Autodestructible {
   private _backend: Backend;
+  private _logger: Logger;
   private _name: string;
   private _producer: string;
   private _params: P;
   private _callback: ConsumerCallback<E>;
   private _summoner!: Summoner<SubscribeResult>;
+  private _health!: HealthReporter;
   
   constructor(options: ConsumerOptions<P, E>) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
@@ -44,6 +45,7 @@ export class Consumer<P, E> extends Autodestructible {
     this._spawn = this._spawn.bind(this);
     
     this._backend = backend;
+    this._logger = backend.logger.child({ consumer: name, producer });
     this._name = name;
     this._producer = producer;
     this._params = params;
@@ -61,12 +63,15 @@ export class Consumer<P, E> extends Autodestructible {
         });
         
         await this._summoner.spawn(response);
+        
+        this._health.set('ok');
       }, {
         retries: 2,
         minDelay: 1000,
         factor: 2,
       });
     } catch (err) {
+      this._health.set('failing', 'subscribe failed');
       this._backend.uncaughtException(new OvernatsError('consumer heartbeat failed', {
         cause: err,
         details: { consumer: this._name },
@@ -76,13 +81,18 @@ export class Consumer<P, E> extends Autodestructible {
     }
   }
   
-  private async _spawn(params: SubscribeResult): Promise<ConsumerSubscription<E>> {
+  private async _spawn(params: SubscribeResult, signal: AbortSignal): Promise<ConsumerSubscription<E>> {
+    this._logger.info('consumer subscribing', { stream: params.stream });
+    
     const subscription = new ConsumerSubscription({
       backend: this._backend,
+      logger: this._logger,
       name: this._name,
       params,
+      signal,
       callback: this._callback,
       error: err => {
+        this._health.set('failing', 'subscription failed');
         this._backend.uncaughtException(new OvernatsError('consumer subscription failed', {
           cause: err,
           details: { consumer: this._name },
@@ -103,6 +113,7 @@ export class Consumer<P, E> extends Autodestructible {
   }
   
   public async init(): Promise<void> {
+    this._health = this.use(this._backend.health.reporter(`consumer.${this._name}`));
     this._summoner = this.use(await this._backend.summoner(this._spawn));
     
     await this._subscribe();
@@ -115,40 +126,68 @@ export class Consumer<P, E> extends Autodestructible {
 
 export type ConsumerSubscriptionOptions<E> = {
   backend: Backend;
+  logger: Logger;
   name: string;
   params: SubscribeResult;
+  signal: AbortSignal;
   callback: ConsumerCallback<E>;
   error: ErrorCallback;
 };
 
 export class ConsumerSubscription<E> {
   private _backend: Backend;
+  private _logger: Logger;
   private _name: string;
   private _params: SubscribeResult;
+  private _signal: AbortSignal;
   private _callback: ConsumerCallback<E>;
   private _error: ErrorCallback;
   private _errorCalled: boolean;
-  private _messages!: ConsumerMessages;
-  private _messagesListener!: Listener<JsMsg>;
+  private _messages!: JsConsumerMessages;
+  private _messagesListener!: Listener<JsMessage>;
   private _statusesListener!: Listener<ConsumerStatus>;
+  private _reconnectOff!: Callback;
   
   constructor(options: ConsumerSubscriptionOptions<E>) {
     const {
       backend,
+      logger,
       name,
       params,
+      signal,
       callback,
       error,
     } = options;
     
     this._backend = backend;
+    this._logger = logger.child({ stream: params.stream });
     this._name = name;
     this._params = params;
+    this._signal = signal;
     this._callback = callback;
     this._error = error;
     this._errorCalled = false;
   }
   
+  private _fail(err: unknown): void {
+    if (!this._errorCalled) {
+      this._error(err);
+      this._errorCalled = true;
+    }
+  }
+  
+  // the stream or the consumer may be gone after the server restarts, in
+  // which case the summoner respawns the whole subscription
+  private async _verify(): Promise<void> {
+    try {
+      await this._backend.jsConsumerInfo(this._params.stream, this._name);
+      
+      this._logger.info('consumer verified');
+    } catch (err) {
+      this._fail(err);
+    }
+  }
+  
   public async init(): Promise<void> {
     const info = await this._backend.jsConsumer(this._params.stream, this._name);
     const consumer = await this._backend.js.consumers.get(info.stream_name, info.name);
@@ -158,14 +197,41 @@ export class ConsumerSubscription<E> {
       `${this._name}.messages`,
       this._messages,
       async message => {
-        const event = this._backend.decode(message.data) as E;
+        const event = this._backend.decode(message.data, message.headers) as E;
+        
+        const { clock, metrics } = this._backend;
+        const labels = { consumer: this._name };
+        const started = clock.now();
+        
+        if (message.info.redeliveryCount > 1) {
+          metrics.increment('consumer_redeliveries_total', labels);
+        }
         
         try {
-          await this._callback(event);
+          await withSpan(this._backend.tracer, `consume ${this._params.stream}`, {
+            kind: 'consumer',
+            parent: extractTrace(message.headers),
+            attributes: {
+              'overnats.stream': this._params.stream,
+              'overnats.consumer': this._name,
+              'overnats.redeliveries': message.info.redeliveryCount,
+            },
+          }, async () => {
+            await this._callback(event, this._signal);
+          });
           message.ack();
+          metrics.increment('consumer_acks_total', labels);
         } catch (err) {
           const after = Math.min(1000 * Math.pow(2, message.info.redeliveryCount), 60_000);
           message.nak(after);
+          metrics.increment('consumer_naks_total', labels);
+          this._logger.debug('consumer callback failed', {
+            redeliveries: message.info.redeliveryCount,
+            delay: after,
+            err,
+          });
+        } finally {
+          metrics.observe('consumer_processing_duration_seconds', (clock.now() - started) / 1000, labels);
         }
       },
     );
@@ -179,17 +245,22 @@ export class ConsumerSubscription<E> {
           const n = status.data as number;
           
           if (n == 2 && !this._errorCalled) {
-            this._error(new Error('heartbeats missed'));
-            this._errorCalled = true;
+            this._logger.warn('consumer heartbeats missed', { missed: n });
+            this._fail(new Error('heartbeats missed'));
           }
         }
       },
     );
+    
+    this._reconnectOff = this._backend.on('reconnect', async () => {
+      await this._verify();
+    });
   }
   
   public async destroy(): Promise<void> {
+    this._reconnectOff();
     this._messages.stop();
-    this._statusesListener.destroy();
-    this._messagesListener.destroy();
+    await this._statusesListener.destroy();
+    await this._messagesListener.destroy();
   }
 }
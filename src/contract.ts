@@ -0,0 +1,122 @@
+import { type Schema } from './schema';
+import { type CallOptions } from './backend';
+import {
+  type ServiceMethodCallback,
+  type ServiceMethodOptions,
+  type ServiceMiddleware,
+  type Service,
+} from './service';
+
+export type ContractMethodSchemas<P, R> = {
+  params?: Schema<P>;
+  result?: Schema<R>;
+};
+
+export type ContractMethod<P, R> = ContractMethodSchemas<P, R> & {
+  readonly signature?: (params: P) => R;
+};
+
+export type ContractMethodLike = {
+  params?: Schema<unknown>;
+  result?: Schema<unknown>;
+  readonly signature?: unknown;
+};
+
+export type ContractMethods = Record<string, ContractMethodLike>;
+
+export type Contract<M extends ContractMethods> = {
+  name: string;
+  methods: M;
+};
+
+export type ParamsOf<M> = M extends { readonly signature?: (params: infer P) => unknown } ? P : never;
+
+export type ResultOf<M> = M extends { readonly signature?: (params: never) => infer R } ? R : never;
+
+export type ContractProxy<M extends ContractMethods> = {
+  [K in keyof M]: (
+    params: ParamsOf<M[K]>,
+    options?: CallOptions<ParamsOf<M[K]>, ResultOf<M[K]>>,
+  ) => Promise<ResultOf<M[K]>>;
+};
+
+export type ContractCallCallback = (
+  method: string,
+  params: unknown,
+  options?: CallOptions,
+) => Promise<unknown>;
+
+export function contract<M extends ContractMethods>(name: string, methods: M): Contract<M> {
+  return { name, methods };
+}
+
+export function contractMethod<P, R>(schemas?: ContractMethodSchemas<P, R>): ContractMethod<P, R> {
+  return { ...schemas };
+}
+
+export type ContractServiceOptions<M extends ContractMethods> = {
+  contract: Contract<M>;
+  service: Service;
+};
+
+export class ContractService<M extends ContractMethods> {
+  private _contract: Contract<M>;
+  private _service: Service;
+  
+  constructor(options: ContractServiceOptions<M>) {
+    const {
+      contract,
+      service,
+    } = options;
+    
+    this._contract = contract;
+    this._service = service;
+  }
+  
+  public get service(): Service {
+    return this._service;
+  }
+  
+  public middleware(middleware: ServiceMiddleware): this {
+    this._service.middleware(middleware);
+    
+    return this;
+  }
+  
+  public async method<K extends keyof M & string>(
+    name: K,
+    callback: ServiceMethodCallback<ParamsOf<M[K]>, ResultOf<M[K]>>,
+    options?: ServiceMethodOptions<ParamsOf<M[K]>, ResultOf<M[K]>>,
+  ): Promise<void> {
+    const definition = this._contract.methods[name] as ContractMethod<ParamsOf<M[K]>, ResultOf<M[K]>>;
+    
+    await this._service.method(name, callback, {
+      params: definition.params,
+      result: definition.result,
+      ...options,
+    });
+  }
+  
+  public async destroy(): Promise<void> {
+    await this._service.destroy();
+  }
+}
+
+export function contractProxy<M extends ContractMethods>(
+  contract: Contract<M>,
+  call: ContractCallCallback,
+): ContractProxy<M> {
+  const proxy: Record<string, unknown> = {};
+  
+  for (const [name, definition] of Object.entries(contract.methods)) {
+    proxy[name] = async (params: unknown, options?: CallOptions) => {
+      return await call(`${contract.name}.${name}`, params, {
+        params: definition.params,
+        result: definition.result,
+        ...options,
+      });
+    };
+  }
+  
+  return proxy as ContractProxy<M>;
+}
@@ -92,10 +92,6 @@
 //   }
 // }
 
-// function validate<T>(value: unknown): value is T {
-//   return true;
-// }
-
 // type SubscribeParams = {
 //   client: string;
 //   stream: string;
@@ -115,10 +111,6 @@
 //     console.log('subscribe', { client, params });
     
 //     try {
-//       if (!validate<SubscribeParams>(params)) {
-//         throw new Error('invalid params');
-//       }
-      
 //       const stream = await core.stream({ name: params.stream });
 //       console.log({ stream });
       
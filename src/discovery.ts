@@ -0,0 +1,156 @@
+import { type Msg as NatsMsg, StringCodec } from 'nats';
+import { type CoreSubscription } from './connection';
+import { type Listener } from './listener';
+import { type Backend } from './backend';
+
+export type ServiceDiscoveryOptions = {
+  name?: string;
+  version?: string;
+  description?: string;
+  metadata?: Record<string, string>;
+};
+
+export type ServiceMethodStats = {
+  requests: number;
+  errors: number;
+  lastError: string;
+  processingTime: number;
+};
+
+export type DiscoveryEndpoint = {
+  name: string;
+  subject: string;
+  queue: string;
+  stats: ServiceMethodStats;
+};
+
+export type DiscoveryEndpointsCallback = () => DiscoveryEndpoint[];
+
+export type DiscoveryOptions = ServiceDiscoveryOptions & {
+  backend: Backend;
+  name: string;
+  id: string;
+  endpoints: DiscoveryEndpointsCallback;
+};
+
+const VERBS = ['PING', 'INFO', 'STATS'] as const;
+
+type Verb = typeof VERBS[number];
+
+export class Discovery {
+  private _backend: Backend;
+  private _name: string;
+  private _id: string;
+  private _version: string;
+  private _description: string;
+  private _metadata: Record<string, string>;
+  private _endpoints: DiscoveryEndpointsCallback;
+  private _started: string;
+  private _subscriptions: CoreSubscription[];
+  private _listeners: Listener<NatsMsg>[];
+  
+  constructor(options: DiscoveryOptions) {
+    const {
+      backend,
+      name,
+      id,
+      version = '0.0.0',
+      description = '',
+      metadata = {},
+      endpoints,
+    } = options;
+    
+    this._backend = backend;
+    this._name = name.replace(/[^A-Za-z0-9\-_]/g, '-');
+    this._id = id;
+    this._version = version;
+    this._description = description;
+    this._metadata = metadata;
+    this._endpoints = endpoints;
+    this._started = new Date(backend.clock.now()).toISOString();
+    this._subscriptions = [];
+    this._listeners = [];
+  }
+  
+  private _response(verb: Verb): unknown {
+    const base = {
+      name: this._name,
+      id: this._id,
+      version: this._version,
+      metadata: this._metadata,
+    };
+    
+    if (verb == 'PING') {
+      return { type: 'io.nats.micro.v1.ping_response', ...base };
+    }
+    
+    if (verb == 'INFO') {
+      return {
+        type: 'io.nats.micro.v1.info_response',
+        ...base,
+        description: this._description,
+        endpoints: this._endpoints().map(endpoint => ({
+          name: endpoint.name,
+          subject: endpoint.subject,
+          queue_group: endpoint.queue,
+          metadata: null,
+        })),
+      };
+    }
+    
+    return {
+      type: 'io.nats.micro.v1.stats_response',
+      ...base,
+      started: this._started,
+      endpoints: this._endpoints().map(endpoint => {
+        const { requests, errors, lastError, processingTime } = endpoint.stats;
+        const nanos = Math.round(processingTime * 1_000_000);
+        
+        return {
+          name: endpoint.name,
+          subject: endpoint.subject,
+          queue_group: endpoint.queue,
+          num_requests: requests,
+          num_errors: errors,
+          last_error: lastError,
+          processing_time: nanos,
+          average_processing_time: (requests > 0) ? Math.round(nanos / requests) : 0,
+        };
+      }),
+    };
+  }
+  
+  public get name(): string {
+    return this._name;
+  }
+  
+  public async init(): Promise<void> {
+    const codec = StringCodec();
+    
+    for (const verb of VERBS) {
+      for (const subject of [
+        `$SRV.${verb}`,
+        `$SRV.${verb}.${this._name}`,
+        `$SRV.${verb}.${this._name}.${this._id}`,
+      ]) {
+        const subscription = this._backend.core.subscribe(subject);
+        const listener = await this._backend.listen(`discovery.${subject}`, subscription, async message => {
+          message.respond(codec.encode(JSON.stringify(this._response(verb))));
+        });
+        
+        this._subscriptions.push(subscription);
+        this._listeners.push(listener);
+      }
+    }
+  }
+  
+  public async destroy(): Promise<void> {
+    for (const subscription of this._subscriptions) {
+      await subscription.drain();
+    }
+    
+    for (const listener of this._listeners) {
+      await listener.destroy();
+    }
+  }
+}
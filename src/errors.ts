@@ -8,6 +8,27 @@ export type OvernatsClientErrorOptions = OvernatsErrorOptions;
 
 export class OvernatsClientError extends OvernatsError {}
 
+export class OvernatsAggregateError extends OvernatsError {
+  public errors: unknown[];
+  
+  constructor(message: string, errors: unknown[]) {
+    super(message, {
+      cause: errors[0],
+      details: { count: errors.length },
+    });
+    
+    this.errors = errors;
+  }
+}
+
+export type OvernatsOverloadedErrorOptions = OvernatsErrorOptions;
+
+export class OvernatsOverloadedError extends OvernatsError {}
+
+export type OvernatsLeaseLostErrorOptions = OvernatsErrorOptions;
+
+export class OvernatsLeaseLostError extends OvernatsError {}
+
 export function error(
   message?: string,
   options?: OvernatsClientErrorOptions,
@@ -15,39 +36,91 @@ export function error(
   return new OvernatsClientError(message, options);
 }
 
-export function serializeError(err: unknown): unknown {
-  if (err instanceof OvernatsClientError) {
-    return {
-      code: 'EFAIL',
-      message: err.message,
-      details: err.details,
-    };
+export type SerializableErrorClass = new (
+  message?: string,
+  options?: OvernatsErrorOptions,
+) => Error;
+
+export type SerializedError = {
+  code: string;
+  message: string;
+  details?: unknown;
+  cause?: SerializedError;
+};
+
+const MAX_CAUSE_DEPTH = 8;
+
+const errorClasses = new Map<string, SerializableErrorClass>();
+const errorCodes = new Map<SerializableErrorClass, string>();
+
+export function registerError(code: string, errorClass: SerializableErrorClass): void {
+  const registered = errorClasses.get(code);
+  if (registered && registered != errorClass) {
+    throw new OvernatsError('error code already registered', { details: { code } });
+  }
+  
+  errorClasses.set(code, errorClass);
+  errorCodes.set(errorClass, code);
+}
+
+registerError('EINTERNAL', OvernatsError);
+registerError('EFAIL', OvernatsClientError);
+registerError('EOVERLOADED', OvernatsOverloadedError);
+registerError('ELEASELOST', OvernatsLeaseLostError);
+
+// looks up the closest registered class in the prototype chain so that
+// unregistered subclasses are serialized as their registered ancestor
+export function errorCodeOf(err: unknown): string | undefined {
+  if (!(err instanceof Error)) {
+    return undefined;
   }
   
-  if (err instanceof OvernatsError) {
+  for (
+    let proto = Object.getPrototypeOf(err);
+    proto && proto != Error.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    const code = errorCodes.get(proto.constructor);
+    if (code) {
+      return code;
+    }
+  }
+  
+  return undefined;
+}
+
+// only registered errors cross the wire, anything else is collapsed into an
+// opaque internal error and cuts the cause chain to avoid leaking internals
+export function serializeError(err: unknown, depth: number = 0): SerializedError {
+  const code = errorCodeOf(err);
+  if (!code) {
     return {
       code: 'EINTERNAL',
-      message: err.message,
-      details: err.details,
+      message: 'internal error',
     };
   }
   
-  return {
-    code: 'EINTERNAL',
-    message: 'internal error',
-  };
+  const { message, details, cause } = err as Error & { details?: unknown };
+  const serialized: SerializedError = { code, message, details };
+  
+  if (cause != undefined && depth < MAX_CAUSE_DEPTH && errorCodeOf(cause)) {
+    serialized.cause = serializeError(cause, depth + 1);
+  }
+  
+  return serialized;
 }
 
-export function deserializeError(value: unknown): OvernatsError {
+export function deserializeError(value: unknown, depth: number = 0): Error {
   if (isDetailsErrorLike(value) && 'code' in value && typeof value.code === 'string') {
-    if (value.code == 'EFAIL') {
-      return new OvernatsClientError(value.message, {
-        cause: value.cause,
-        details: value.details,
-      });
-    }
+    const errorClass = errorClasses.get(value.code) ?? OvernatsError;
+    const cause = ('cause' in value && value.cause != undefined && depth < MAX_CAUSE_DEPTH)
+      ? deserializeError(value.cause, depth + 1)
+      : undefined;
     
-    return new OvernatsError(value.message, { details: value.details });
+    return new errorClass(value.message, {
+      cause,
+      details: value.details,
+    });
   }
   
   return new OvernatsError('unknown error');
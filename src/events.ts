@@ -0,0 +1,104 @@
+import { type Status, type ServersChanged, Events, DebugEvents } from 'nats';
+import { type Callback, type Trapdoor } from './types';
+import { OvernatsError } from './errors';
+
+export type ConnectionEvents = {
+  disconnect: { server: string };
+  reconnecting: { attempt: number };
+  reconnect: { server: string };
+  lameDuck: { server: string };
+  update: { added: string[]; deleted: string[] };
+  stale: Record<string, never>;
+  slowConsumer: { message: string };
+  error: { message: string };
+};
+
+export type ConnectionEventName = keyof ConnectionEvents;
+
+export type EventListener<T> = (data: T) => void | Promise<void>;
+
+export type EmitterOptions = {
+  trapdoor: Trapdoor;
+};
+
+export class Emitter<E extends Record<string, unknown>> {
+  private _trapdoor: Trapdoor;
+  private _listeners: Map<keyof E, Set<EventListener<never>>>;
+  
+  constructor(options: EmitterOptions) {
+    const {
+      trapdoor,
+    } = options;
+    
+    this._trapdoor = trapdoor;
+    this._listeners = new Map();
+  }
+  
+  public on<K extends keyof E>(event: K, listener: EventListener<E[K]>): Callback {
+    let listeners = this._listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this._listeners.set(event, listeners);
+    }
+    
+    listeners.add(listener);
+    
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+  
+  // listeners are not awaited, so that a slow one does not hold back the
+  // delivery of the next event
+  public emit<K extends keyof E>(event: K, data: E[K]): void {
+    const fail = (err: unknown) => {
+      this._trapdoor.uncaughtException(new OvernatsError('event listener failed', {
+        cause: err,
+        details: { event },
+      }));
+    };
+    
+    for (const listener of this._listeners.get(event) ?? []) {
+      try {
+        Promise.resolve((listener as EventListener<E[K]>)(data)).catch(fail);
+      } catch (err) {
+        fail(err);
+      }
+    }
+  }
+}
+
+export type ConnectionEvent = {
+  [K in ConnectionEventName]: [K, ConnectionEvents[K]];
+}[ConnectionEventName];
+
+export function statusToEvent(status: Status): ConnectionEvent | undefined {
+  switch (status.type) {
+    case Events.Disconnect:
+      return ['disconnect', { server: String(status.data) }];
+    case Events.Reconnect:
+      return ['reconnect', { server: String(status.data) }];
+    case Events.LDM:
+      return ['lameDuck', { server: String(status.data) }];
+    case Events.Update: {
+      const { added = [], deleted = [] } = status.data as ServersChanged;
+      
+      return ['update', { added, deleted }];
+    }
+    case Events.Error: {
+      const message = String(status.data);
+      
+      if (/slow consumer/i.test(message)) {
+        return ['slowConsumer', { message }];
+      }
+      
+      return ['error', { message }];
+    }
+    case DebugEvents.Reconnecting:
+      return ['reconnecting', { attempt: Number(status.data) || 0 }];
+    case DebugEvents.StaleConnection:
+      return ['stale', {}];
+  }
+  
+  return undefined;
+}
@@ -0,0 +1,45 @@
+import { type MsgHdrs } from 'nats';
+import { OvernatsError } from './errors';
+import { TRACEPARENT_HEADER } from './tracing';
+
+export const TIMEOUT_HEADER = 'Overnats-Timeout';
+export const CALLER_APP_HEADER = 'Overnats-Caller-App';
+export const CALLER_CLIENT_HEADER = 'Overnats-Caller-Client';
+export const REQUEST_ID_HEADER = 'Overnats-Request-Id';
+
+export const RESERVED_HEADER_PREFIX = 'Overnats-';
+
+export type HeadersRecord = Record<string, string>;
+
+// the trace context travels in its standard header, which is owned by
+// overnats just as much as the prefixed ones
+function isReserved(key: string): boolean {
+  const lower = key.toLowerCase();
+  
+  return lower.startsWith(RESERVED_HEADER_PREFIX.toLowerCase()) || lower == TRACEPARENT_HEADER;
+}
+
+export function readHeaders(headers: MsgHdrs | undefined): HeadersRecord {
+  const record: HeadersRecord = {};
+  if (!headers) {
+    return record;
+  }
+  
+  for (const key of headers.keys()) {
+    if (!isReserved(key)) {
+      record[key] = headers.get(key);
+    }
+  }
+  
+  return record;
+}
+
+export function writeHeaders(headers: MsgHdrs, record: HeadersRecord | undefined): void {
+  for (const [key, value] of Object.entries(record ?? {})) {
+    if (isReserved(key)) {
+      throw new OvernatsError('reserved header', { details: { header: key } });
+    }
+    
+    headers.set(key, value);
+  }
+}
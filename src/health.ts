@@ -0,0 +1,167 @@
+import http from 'node:http';
+import { type Clock } from './clock';
+
+export type HealthState = 'starting' | 'ok' | 'failing';
+
+export type HealthComponentReport = {
+  name: string;
+  state: HealthState;
+  message?: string;
+  since: string;
+};
+
+export type HealthReport = {
+  live: boolean;
+  ready: boolean;
+  components: HealthComponentReport[];
+};
+
+type HealthComponent = {
+  name: string;
+  state: HealthState;
+  message?: string;
+  since: number;
+};
+
+export class HealthReporter {
+  private _health: Health;
+  private _component: HealthComponent;
+  
+  constructor(health: Health, component: HealthComponent) {
+    this._health = health;
+    this._component = component;
+  }
+  
+  public get state(): HealthState {
+    return this._component.state;
+  }
+  
+  public set(state: HealthState, message?: string): void {
+    if (state != this._component.state) {
+      this._component.since = this._health.clock.now();
+    }
+    
+    this._component.state = state;
+    this._component.message = message;
+  }
+  
+  public async destroy(): Promise<void> {
+    this._health.remove(this._component);
+  }
+}
+
+export type HealthOptions = {
+  clock: Clock;
+};
+
+// an app is live while none of its components is failing, and ready once
+// every component has also finished starting
+export class Health {
+  private _components: Set<HealthComponent>;
+  
+  public clock: Clock;
+  
+  constructor(options: HealthOptions) {
+    const {
+      clock,
+    } = options;
+    
+    this._components = new Set();
+    this.clock = clock;
+  }
+  
+  public reporter(name: string, state: HealthState = 'starting'): HealthReporter {
+    const component = { name, state, since: this.clock.now() };
+    
+    this._components.add(component);
+    
+    return new HealthReporter(this, component);
+  }
+  
+  public remove(component: HealthComponent): void {
+    this._components.delete(component);
+  }
+  
+  public report(): HealthReport {
+    const components = Array.from(this._components, component => ({
+      name: component.name,
+      state: component.state,
+      message: component.message,
+      since: new Date(component.since).toISOString(),
+    }));
+    const live = components.every(component => component.state != 'failing');
+    const ready = live && components.every(component => component.state == 'ok');
+    
+    return { live, ready, components };
+  }
+}
+
+export type HealthHttpServerOptions = {
+  health: Health;
+  port: number;
+  host?: string;
+};
+
+export class HealthHttpServer {
+  private _health: Health;
+  private _port: number;
+  private _host?: string;
+  private _server!: http.Server;
+  
+  constructor(options: HealthHttpServerOptions) {
+    const {
+      health,
+      port,
+      host,
+    } = options;
+    
+    this._health = health;
+    this._port = port;
+    this._host = host;
+  }
+  
+  private _handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const report = this._health.report();
+    const path = (req.url ?? '').split('?')[0];
+    
+    let ok: boolean;
+    
+    if (path == '/healthz' || path == '/livez') {
+      ok = report.live;
+    } else if (path == '/readyz') {
+      ok = report.ready;
+    } else {
+      res.writeHead(404).end();
+      
+      return;
+    }
+    
+    res.writeHead(ok ? 200 : 503, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(report));
+  }
+  
+  public get port(): number {
+    const address = this._server.address();
+    
+    return (address && typeof address == 'object') ? address.port : this._port;
+  }
+  
+  public async init(): Promise<void> {
+    this._server = http.createServer((req, res) => this._handle(req, res));
+    
+    await new Promise<void>((resolve, reject) => {
+      this._server.once('error', reject);
+      this._server.listen(this._port, this._host, () => {
+        this._server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+  
+  public async destroy(): Promise<void> {
+    await new Promise<void>(resolve => {
+      this._server.close(() => resolve());
+      this._server.closeAllConnections();
+    });
+  }
+}
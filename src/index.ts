@@ -1,16 +1,32 @@
 export * from './types';
 export * from './errors';
 export * from './utils';
+export * from './codec';
+export * from './connection';
+export * from './clock';
+export * from './tracing';
+export * from './metrics';
+export * from './logger';
+export * from './events';
+export * from './health';
+export * from './headers';
+export * from './schema';
 export * from './autodestructible';
 export * from './timer';
 export * from './spawner';
 export * from './subscription';
+export * from './discovery';
 export * from './service';
+export * from './contract';
 export * from './bucket';
 export * from './watcher';
+export * from './lease';
+export * from './semaphore';
+export * from './leader';
 export * from './producer';
 export * from './consumer';
 export * from './backend';
 export * from './client';
 export * from './app';
 export * from './connect';
+export * from './memory';
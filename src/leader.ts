@@ -0,0 +1,212 @@
+import { type Destructible } from './types';
+import { OvernatsError } from './errors';
+import { Mutex, anyway, nanoid } from './utils';
+import { type Logger } from './logger';
+import { type Timer } from './timer';
+import { type Lease } from './lease';
+import { type Watcher } from './watcher';
+import { type Bucket } from './bucket';
+import { type Backend } from './backend';
+
+export type LeaderRecord = {
+  id: string;
+  since: string;
+};
+
+export type LeaderElectedCallback = (lease: Lease) => Promise<Destructible>;
+export type LeaderDemotedCallback = () => Promise<void>;
+export type LeaderWatchCallback = (leader: LeaderRecord | undefined) => Promise<void>;
+
+export type LeaderCallbacks = {
+  onElected: LeaderElectedCallback;
+  onDemoted?: LeaderDemotedCallback;
+};
+
+export type LeaderOptions = LeaderCallbacks & {
+  backend: Backend;
+  bucket: Bucket<LeaderRecord>;
+  key: string;
+  interval: number;
+};
+
+// campaigns for the key on every tick and keeps it under a lease while
+// elected; the scope returned by onElected lives exactly as long as the
+// leadership does
+export class Leader {
+  private _backend: Backend;
+  private _logger: Logger;
+  private _bucket: Bucket<LeaderRecord>;
+  private _key: string;
+  private _id: string;
+  private _interval: number;
+  private _onElected: LeaderElectedCallback;
+  private _onDemoted: LeaderDemotedCallback | undefined;
+  private _mutex: Mutex;
+  private _timer: Timer | undefined;
+  private _lease: Lease | undefined;
+  private _scope: Destructible | undefined;
+  private _watchers: Watcher<LeaderRecord>[];
+  private _destroyed: boolean;
+  
+  constructor(options: LeaderOptions) {
+    const {
+      backend,
+      bucket,
+      key,
+      interval,
+      onElected,
+      onDemoted,
+    } = options;
+    
+    this._id = nanoid();
+    this._backend = backend;
+    this._logger = backend.logger.child({ leader: key, candidate: this._id });
+    this._bucket = bucket;
+    this._key = key;
+    this._interval = interval;
+    this._onElected = onElected;
+    this._onDemoted = onDemoted;
+    this._mutex = new Mutex();
+    this._timer = undefined;
+    this._lease = undefined;
+    this._scope = undefined;
+    this._watchers = [];
+    this._destroyed = false;
+  }
+  
+  private async _elect(lease: Lease): Promise<void> {
+    this._lease = lease;
+    this._logger.info('leader elected', { token: lease.token });
+    
+    // demotion should not wait for the next tick once the lease is gone
+    lease.signal.addEventListener('abort', () => {
+      if (lease.lost) {
+        this._campaign().catch(err => {
+          this._backend.uncaughtException(new OvernatsError('leader demotion failed', {
+            cause: err,
+            details: { key: this._key },
+          }));
+        });
+      }
+    });
+    
+    try {
+      this._scope = await this._onElected(lease);
+    } catch (err) {
+      await this._demote();
+      
+      throw err;
+    }
+  }
+  
+  private async _demote(): Promise<void> {
+    const lease = this._lease;
+    if (!lease) {
+      return;
+    }
+    
+    const scope = this._scope;
+    
+    this._lease = undefined;
+    this._scope = undefined;
+    
+    // a scope that fails to go away must not keep the key from the next
+    // candidate
+    try {
+      await anyway(async () => {
+        await scope?.destroy();
+      }, async () => {
+        await lease.destroy();
+      });
+    } finally {
+      this._logger.info('leader demoted', { token: lease.token, lost: lease.lost });
+      
+      await this._onDemoted?.();
+    }
+  }
+  
+  private async _campaign(): Promise<void> {
+    await this._mutex.lock(async () => {
+      if (this._destroyed) {
+        return;
+      }
+      
+      if (this._lease) {
+        if (this._lease.lost) {
+          await this._demote();
+        } else {
+          return;
+        }
+      }
+      
+      const lease = await this._bucket.tryLease(this._key, {
+        id: this._id,
+        since: new Date(this._backend.clock.now()).toISOString(),
+      });
+      
+      if (lease) {
+        await this._elect(lease);
+      }
+    });
+  }
+  
+  public get id(): string {
+    return this._id;
+  }
+  
+  public get elected(): boolean {
+    return !!this._lease && !this._lease.lost;
+  }
+  
+  public async current(): Promise<LeaderRecord | undefined> {
+    return await this._bucket.get(this._key);
+  }
+  
+  // renewals rewrite the record, so the callback only hears about changes
+  // of the leader; an expired leader shows up once its successor is elected
+  public async watch(callback: LeaderWatchCallback): Promise<Watcher<LeaderRecord>> {
+    let current: string | undefined = undefined;
+    
+    const watcher = await this._bucket.watch(async update => {
+      const leader = (update.operation == 'PUT') ? update.value : undefined;
+      if (leader?.id == current) {
+        return;
+      }
+      
+      current = leader?.id;
+      
+      await callback(leader);
+    }, { filter: this._key, detach: true });
+    
+    this._watchers.push(watcher);
+    
+    return watcher;
+  }
+  
+  // the first campaign runs before the timer starts, so that a leader
+  // failing to take office on init leaves nothing behind
+  public async init(): Promise<void> {
+    const name = `leader.${this._key}`;
+    
+    await this._campaign();
+    
+    this._timer = await this._backend.localTimer(name, this._interval, async () => {
+      await this._campaign();
+    });
+  }
+  
+  // stepping down leaves the key to the next candidate right away
+  public async destroy(): Promise<void> {
+    await this._timer?.destroy();
+    
+    for (const watcher of this._watchers) {
+      await watcher.destroy();
+    }
+    
+    await this._mutex.lock(async () => {
+      this._destroyed = true;
+      
+      await this._demote();
+    });
+  }
+}
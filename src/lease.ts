@@ -0,0 +1,147 @@
+import { OvernatsLeaseLostError } from './errors';
+import { type SignalLink, isWrongLastSequenceError, linkSignals } from './utils';
+import { AutoabortableError } from './autoabortable';
+import { type Logger } from './logger';
+import { type Timer } from './timer';
+import { type Backend } from './backend';
+import { type Bucket } from './bucket';
+
+export type LockCallback = (lease: Lease) => Promise<void>;
+
+export type LockOptions = {
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+export type LeaseOptions = {
+  backend: Backend;
+  bucket: Bucket<unknown>;
+  key: string;
+  value?: unknown;
+  revision: number;
+  ttl: number;
+};
+
+// keeps a key alive in a bucket with a ttl by rewriting it every third of
+// the ttl; the revision the key was created with is the fencing token, which
+// only grows within a bucket
+export class Lease {
+  private _backend: Backend;
+  private _logger: Logger;
+  private _bucket: Bucket<unknown>;
+  private _key: string;
+  private _value: unknown;
+  private _token: number;
+  private _revision: number;
+  private _ttl: number;
+  private _renewed: number;
+  private _controller: AbortController;
+  private _link: SignalLink;
+  private _timer: Timer | undefined;
+  private _lost: boolean;
+  
+  constructor(options: LeaseOptions) {
+    const {
+      backend,
+      bucket,
+      key,
+      value,
+      revision,
+      ttl,
+    } = options;
+    
+    this._backend = backend;
+    this._logger = backend.logger.child({ lease: key });
+    this._bucket = bucket;
+    this._key = key;
+    this._value = value;
+    this._token = revision;
+    this._revision = revision;
+    this._ttl = ttl;
+    this._renewed = backend.clock.now();
+    this._controller = new AbortController();
+    this._link = linkSignals([this._controller.signal, backend.signal]);
+    this._timer = undefined;
+    this._lost = false;
+  }
+  
+  private _lose(err: unknown): void {
+    this._lost = true;
+    this._backend.metrics.increment('bucket_lease_lost_total', { bucket: this._bucket.name });
+    this._logger.warn('lease lost', { err });
+    this._controller.abort(new OvernatsLeaseLostError('lease lost', {
+      cause: err,
+      details: { key: this._key },
+    }));
+  }
+  
+  private async _renew(): Promise<void> {
+    if (this._lost) {
+      return;
+    }
+    
+    try {
+      this._revision = await this._bucket.update(this._key, this._value, this._revision);
+      this._renewed = this._backend.clock.now();
+    } catch (err) {
+      // a transient failure is survivable for as long as the key has not
+      // expired yet, but another revision means someone else holds it now
+      if (isWrongLastSequenceError(err) || this._backend.clock.now() - this._renewed >= this._ttl) {
+        this._lose(err);
+      } else {
+        this._logger.warn('lease renewal failed', { err });
+      }
+    }
+  }
+  
+  public get key(): string {
+    return this._key;
+  }
+  
+  public get token(): number {
+    return this._token;
+  }
+  
+  public get signal(): AbortSignal {
+    return this._link.signal;
+  }
+  
+  public get lost(): boolean {
+    return this._lost;
+  }
+  
+  public async init(): Promise<void> {
+    if (this._ttl <= 0) {
+      return;
+    }
+    
+    const interval = Math.max(Math.floor(this._ttl / 3), 1);
+    
+    this._timer = await this._backend.localTimer(`lease.${this._key}`, interval, async () => {
+      await this._renew();
+    });
+  }
+  
+  public async destroy(): Promise<void> {
+    await this._timer?.destroy();
+    
+    if (this._lost) {
+      this._link.unlink();
+      
+      return;
+    }
+    
+    this._controller.abort(new AutoabortableError());
+    this._link.unlink();
+    
+    try {
+      await this._bucket.delete(this._key, { revision: this._revision });
+    } catch (err) {
+      if (isWrongLastSequenceError(err)) {
+        return;
+      }
+      
+      throw err;
+    }
+  }
+}
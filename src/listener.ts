@@ -1,8 +1,10 @@
 import { type UseCallback, type Trapdoor } from './types';
 import { OvernatsError } from './errors';
+import { type Metrics } from './metrics';
 
 export type ListenerOptions<T> = {
   trapdoor: Trapdoor;
+  metrics: Metrics;
   name: string;
   iterable: AsyncIterable<T>;
   callback: UseCallback<T>;
@@ -10,6 +12,7 @@ export type ListenerOptions<T> = {
 
 export class Listener<T> {
   private _trapdoor: Trapdoor;
+  private _metrics: Metrics;
   private _name: string;
   private _iterable: AsyncIterable<T>;
   private _callback: UseCallback<T>;
@@ -18,12 +21,14 @@ export class Listener<T> {
   constructor(options: ListenerOptions<T>) {
     const {
       trapdoor,
+      metrics,
       name,
       iterable,
       callback,
     } = options;
     
     this._trapdoor = trapdoor;
+    this._metrics = metrics;
     this._name = name;
     this._iterable = iterable;
     this._callback = callback;
@@ -35,6 +40,7 @@ export class Listener<T> {
         try {
           await this._callback(value);
         } catch (err) {
+          this._metrics.increment('listener_failures_total', { listener: this._name });
           this._trapdoor.uncaughtException(new OvernatsError('listener callback failed', {
             cause: err,
             details: { listener: this._name },
@@ -42,6 +48,7 @@ export class Listener<T> {
         }
       }
     } catch (err) {
+      this._metrics.increment('listener_failures_total', { listener: this._name });
       this._trapdoor.uncaughtException(new OvernatsError('listener failed', {
         cause: err,
         details: { listener: this._name },
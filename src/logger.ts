@@ -0,0 +1,123 @@
+import { type Clock, systemClock } from './clock';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+};
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export class NoopLogger implements Logger {
+  public debug(): void {}
+  public info(): void {}
+  public warn(): void {}
+  public error(): void {}
+  
+  public child(): Logger {
+    return this;
+  }
+}
+
+export const noopLogger = new NoopLogger();
+
+export type ConsoleLoggerWriteCallback = (level: LogLevel, line: string) => void;
+
+export type ConsoleLoggerOptions = {
+  level?: LogLevel;
+  fields?: LogFields;
+  write?: ConsoleLoggerWriteCallback;
+  clock?: Clock;
+};
+
+// writes one JSON record per line, errors go to stderr
+export class ConsoleLogger implements Logger {
+  private _level: LogLevel;
+  private _fields: LogFields;
+  private _write: ConsoleLoggerWriteCallback;
+  private _clock: Clock;
+  
+  constructor(options?: ConsoleLoggerOptions) {
+    const {
+      level = 'info',
+      fields = {},
+      write = defaultWrite,
+      clock = systemClock,
+    } = options ?? {};
+    
+    this._level = level;
+    this._fields = fields;
+    this._write = write;
+    this._clock = clock;
+  }
+  
+  private _log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this._level)) {
+      return;
+    }
+    
+    const record = {
+      time: new Date(this._clock.now()).toISOString(),
+      level,
+      message,
+      ...this._fields,
+      ...fields,
+    };
+    
+    this._write(level, JSON.stringify(record, replacer));
+  }
+  
+  public debug(message: string, fields?: LogFields): void {
+    this._log('debug', message, fields);
+  }
+  
+  public info(message: string, fields?: LogFields): void {
+    this._log('info', message, fields);
+  }
+  
+  public warn(message: string, fields?: LogFields): void {
+    this._log('warn', message, fields);
+  }
+  
+  public error(message: string, fields?: LogFields): void {
+    this._log('error', message, fields);
+  }
+  
+  public child(fields: LogFields): Logger {
+    return new ConsoleLogger({
+      level: this._level,
+      fields: { ...this._fields, ...fields },
+      write: this._write,
+      clock: this._clock,
+    });
+  }
+}
+
+function defaultWrite(level: LogLevel, line: string): void {
+  if (level == 'error' || level == 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function replacer(key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    const { name, message, stack, cause } = value;
+    const details = (value as { details?: unknown }).details;
+    
+    return { name, message, details, stack, cause };
+  }
+  
+  if (typeof value == 'bigint') {
+    return value.toString();
+  }
+  
+  return value;
+}
@@ -0,0 +1,1208 @@
+import {
+  type Msg,
+  type MsgHdrs,
+  type KvEntry,
+  type PublishOptions,
+  type RequestOptions,
+  type SubscriptionOptions,
+  type StreamConfig,
+  type ConsumerConfig,
+  type KvOptions,
+  type KvWatchOptions,
+  type Status,
+  DeliverPolicy,
+  RetentionPolicy,
+  ErrorCode,
+  NatsError,
+  StringCodec,
+} from 'nats';
+import { type Callback, type ErrorCallback, type OvernatsGlobalOptions } from './types';
+import { nanoid } from './utils';
+import {
+  type CoreConnection,
+  type CoreSubscription,
+  type JsClient,
+  type JsManager,
+  type JsConsumer,
+  type JsConsumerMessages,
+  type JsMessage,
+  type KvStore,
+  type KvWatch,
+} from './connection';
+import { type MessageCodec } from './codec';
+import { type Clock, systemClock } from './clock';
+import { type Tracer } from './tracing';
+import { type Metrics } from './metrics';
+import { type Logger, ConsoleLogger } from './logger';
+import { Backend } from './backend';
+import { App } from './app';
+
+const EMPTY = new Uint8Array(0);
+const strings = StringCodec();
+
+export function matchSubject(pattern: string, subject: string): boolean {
+  const patternTokens = pattern.split('.');
+  const subjectTokens = subject.split('.');
+  
+  for (let i = 0; i < patternTokens.length; i++) {
+    if (patternTokens[i] == '>') {
+      return subjectTokens.length > i;
+    }
+    
+    if (i >= subjectTokens.length) {
+      return false;
+    }
+    
+    if (patternTokens[i] != '*' && patternTokens[i] != subjectTokens[i]) {
+      return false;
+    }
+  }
+  
+  return patternTokens.length == subjectTokens.length;
+}
+
+function consumerNotFoundError(): NatsError {
+  const description = 'consumer not found';
+  const err = new NatsError(description, '404');
+  
+  err.api_error = { code: 404, err_code: 10014, description };
+  
+  return err;
+}
+
+function wrongLastSequenceError(revision: number): NatsError {
+  const description = `wrong last sequence: ${revision}`;
+  const err = new NatsError(description, '400');
+  
+  err.api_error = { code: 400, err_code: 10071, description };
+  
+  return err;
+}
+
+type MemoryQueueItem<T> = { value: T } | { callback: Callback };
+
+class MemoryQueue<T> implements AsyncIterable<T> {
+  private _items: MemoryQueueItem<T>[];
+  private _wake: Callback | undefined;
+  private _stopped: boolean;
+  
+  constructor() {
+    this._items = [];
+    this._wake = undefined;
+    this._stopped = false;
+  }
+  
+  private _notify(): void {
+    const wake = this._wake;
+    
+    this._wake = undefined;
+    
+    if (wake) {
+      wake();
+    }
+  }
+  
+  public get stopped(): boolean {
+    return this._stopped;
+  }
+  
+  public push(value: T): void {
+    if (this._stopped) {
+      return;
+    }
+    
+    this._items.push({ value });
+    this._notify();
+  }
+  
+  public call(callback: Callback): void {
+    if (this._stopped) {
+      return;
+    }
+    
+    this._items.push({ callback });
+    this._notify();
+  }
+  
+  public stop(): void {
+    this._stopped = true;
+    this._notify();
+  }
+  
+  public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      const item = this._items.shift();
+      
+      if (item) {
+        if ('callback' in item) {
+          item.callback();
+        } else {
+          yield item.value;
+        }
+        
+        continue;
+      }
+      
+      if (this._stopped) {
+        return;
+      }
+      
+      await new Promise<void>(resolve => {
+        this._wake = resolve;
+      });
+    }
+  }
+}
+
+type MemoryMessage = {
+  subject: string;
+  data: Uint8Array;
+  headers?: MsgHdrs;
+  reply?: string;
+};
+
+type MemorySubscriber = {
+  subject: string;
+  queue?: string;
+  deliver(message: MemoryMessage): void;
+};
+
+class MemoryMsg implements Msg {
+  private _server: MemoryServer;
+  
+  public subject: string;
+  public sid: number;
+  public reply?: string;
+  public data: Uint8Array;
+  public headers?: MsgHdrs;
+  
+  constructor(server: MemoryServer, message: MemoryMessage) {
+    this._server = server;
+    this.subject = message.subject;
+    this.sid = 0;
+    this.reply = message.reply;
+    this.data = message.data;
+    this.headers = message.headers;
+  }
+  
+  public respond(data?: Uint8Array, options?: PublishOptions): boolean {
+    if (!this.reply) {
+      return false;
+    }
+    
+    this._server.publish({
+      subject: this.reply,
+      data: data ?? EMPTY,
+      headers: options?.headers,
+    });
+    
+    return true;
+  }
+  
+  public json<T>(): T {
+    return JSON.parse(this.string());
+  }
+  
+  public string(): string {
+    return strings.decode(this.data);
+  }
+}
+
+class MemorySubscription implements MemorySubscriber, CoreSubscription {
+  private _server: MemoryServer;
+  private _queue: MemoryQueue<Msg>;
+  
+  public subject: string;
+  public queue?: string;
+  
+  constructor(server: MemoryServer, subject: string, options?: SubscriptionOptions) {
+    this._server = server;
+    this._queue = new MemoryQueue();
+    this.subject = subject;
+    this.queue = options?.queue;
+  }
+  
+  public deliver(message: MemoryMessage): void {
+    this._queue.push(new MemoryMsg(this._server, message));
+  }
+  
+  public getSubject(): string {
+    return this.subject;
+  }
+  
+  public isClosed(): boolean {
+    return this._queue.stopped;
+  }
+  
+  public unsubscribe(): void {
+    this._server.unsubscribe(this);
+    this._queue.stop();
+  }
+  
+  public async drain(): Promise<void> {
+    this.unsubscribe();
+  }
+  
+  public [Symbol.asyncIterator](): AsyncIterator<Msg> {
+    return this._queue[Symbol.asyncIterator]();
+  }
+}
+
+type MemoryStoredMessage = MemoryMessage & {
+  seq: number;
+  timestamp: number;
+};
+
+class MemoryStream {
+  private _durables: Map<string, MemoryDurable>;
+  
+  public clock: Clock;
+  public name: string;
+  public subjects: string[];
+  public retention: RetentionPolicy;
+  public messages: Map<number, MemoryStoredMessage>;
+  public lastSeq: number;
+  
+  constructor(clock: Clock, config: Partial<StreamConfig>) {
+    this._durables = new Map();
+    this.clock = clock;
+    this.name = config.name!;
+    this.subjects = config.subjects ?? [];
+    this.retention = config.retention ?? RetentionPolicy.Limits;
+    this.messages = new Map();
+    this.lastSeq = 0;
+  }
+  
+  public matches(subject: string): boolean {
+    return this.subjects.some(pattern => matchSubject(pattern, subject));
+  }
+  
+  public store(message: MemoryMessage): number {
+    const seq = ++this.lastSeq;
+    
+    // like the server, an interest stream does not store a message that no
+    // consumer is interested in, while the other policies keep it for
+    // consumers created later
+    if (this.retention == RetentionPolicy.Interest && this._durables.size == 0) {
+      return seq;
+    }
+    
+    this.messages.set(seq, { ...message, reply: undefined, seq, timestamp: this.clock.now() });
+    
+    for (const durable of this._durables.values()) {
+      durable.dispatch();
+    }
+    
+    return seq;
+  }
+  
+  public durable(name: string): MemoryDurable | undefined {
+    return this._durables.get(name);
+  }
+  
+  public addDurable(config: Partial<ConsumerConfig>): MemoryDurable {
+    const name = config.durable_name ?? config.name ?? nanoid();
+    let durable = this._durables.get(name);
+    
+    if (!durable) {
+      const start = (config.deliver_policy == DeliverPolicy.New) ? this.lastSeq + 1 : 1;
+      
+      durable = new MemoryDurable(this, name, start, config);
+      this._durables.set(name, durable);
+    }
+    
+    return durable;
+  }
+  
+  public deleteDurable(name: string): boolean {
+    if (!this._durables.delete(name)) {
+      return false;
+    }
+    
+    this.collect();
+    
+    return true;
+  }
+  
+  // acked messages only go away from streams that retain them for their
+  // consumers, limits streams keep them until the limits kick in
+  public collect(): void {
+    if (this.retention == RetentionPolicy.Limits) {
+      return;
+    }
+    
+    for (const seq of this.messages.keys()) {
+      let done = true;
+      
+      for (const durable of this._durables.values()) {
+        if (!durable.done(seq)) {
+          done = false;
+          break;
+        }
+      }
+      
+      if (done) {
+        this.messages.delete(seq);
+      }
+    }
+  }
+}
+
+class MemoryDurable {
+  private _stream: MemoryStream;
+  private _next: number;
+  private _redeliveries: number[];
+  private _deliveries: Map<number, number>;
+  private _pending: Map<number, MemoryConsumerMessages>;
+  private _subscribers: MemoryConsumerMessages[];
+  private _cursor: number;
+  
+  public name: string;
+  public config: Partial<ConsumerConfig>;
+  
+  constructor(stream: MemoryStream, name: string, start: number, config: Partial<ConsumerConfig>) {
+    this._stream = stream;
+    this._next = start;
+    this._redeliveries = [];
+    this._deliveries = new Map();
+    this._pending = new Map();
+    this._subscribers = [];
+    this._cursor = 0;
+    this.name = name;
+    this.config = config;
+  }
+  
+  private _take(): number | undefined {
+    if (this._redeliveries.length > 0) {
+      return this._redeliveries.shift();
+    }
+    
+    if (this._next <= this._stream.lastSeq) {
+      return this._next++;
+    }
+    
+    return undefined;
+  }
+  
+  public done(seq: number): boolean {
+    return seq < this._next && !this._deliveries.has(seq);
+  }
+  
+  public dispatch(): void {
+    while (this._subscribers.length > 0) {
+      const seq = this._take();
+      if (seq == undefined) {
+        return;
+      }
+      
+      const message = this._stream.messages.get(seq);
+      if (!message) {
+        continue;
+      }
+      
+      const count = (this._deliveries.get(seq) ?? 0) + 1;
+      const subscriber = this._subscribers[this._cursor++ % this._subscribers.length];
+      
+      this._deliveries.set(seq, count);
+      this._pending.set(seq, subscriber);
+      
+      subscriber.deliver(new MemoryJsMsg(this, this._stream.name, message, count));
+    }
+  }
+  
+  public ack(seq: number): void {
+    this._pending.delete(seq);
+    this._deliveries.delete(seq);
+    this._stream.collect();
+  }
+  
+  public nak(seq: number, delay: number): void {
+    this._pending.delete(seq);
+    
+    if (delay > 0) {
+      this._stream.clock.setTimeout(() => {
+        this._redeliveries.push(seq);
+        this.dispatch();
+      }, delay);
+    } else {
+      this._redeliveries.push(seq);
+      this.dispatch();
+    }
+  }
+  
+  public attach(subscriber: MemoryConsumerMessages): void {
+    this._subscribers.push(subscriber);
+    this.dispatch();
+  }
+  
+  public detach(subscriber: MemoryConsumerMessages): void {
+    this._subscribers.splice(this._subscribers.indexOf(subscriber), 1);
+    
+    // messages handed to a stopped subscriber are never going to be acked,
+    // so they are redelivered right away instead of waiting for ack_wait
+    for (const [seq, owner] of this._pending) {
+      if (owner == subscriber) {
+        this._pending.delete(seq);
+        this._redeliveries.push(seq);
+      }
+    }
+    
+    this.dispatch();
+  }
+}
+
+class MemoryJsMsg implements JsMessage {
+  private _durable: MemoryDurable;
+  private _settled: boolean;
+  
+  public subject: string;
+  public data: Uint8Array;
+  public headers?: MsgHdrs;
+  public seq: number;
+  public redelivered: boolean;
+  public info: {
+    stream: string;
+    consumer: string;
+    streamSequence: number;
+    redeliveryCount: number;
+    redelivered: boolean;
+    timestampNanos: number;
+  };
+  
+  constructor(durable: MemoryDurable, stream: string, message: MemoryStoredMessage, count: number) {
+    this._durable = durable;
+    this._settled = false;
+    this.subject = message.subject;
+    this.data = message.data;
+    this.headers = message.headers;
+    this.seq = message.seq;
+    this.redelivered = count > 1;
+    this.info = {
+      stream,
+      consumer: durable.name,
+      streamSequence: message.seq,
+      redeliveryCount: count,
+      redelivered: count > 1,
+      timestampNanos: message.timestamp * 1_000_000,
+    };
+  }
+  
+  private _settle(): boolean {
+    if (this._settled) {
+      return false;
+    }
+    
+    this._settled = true;
+    
+    return true;
+  }
+  
+  public ack(): void {
+    if (this._settle()) {
+      this._durable.ack(this.seq);
+    }
+  }
+  
+  public async ackAck(): Promise<boolean> {
+    this.ack();
+    
+    return true;
+  }
+  
+  public nak(millis?: number): void {
+    if (this._settle()) {
+      this._durable.nak(this.seq, millis ?? 0);
+    }
+  }
+  
+  public term(): void {
+    this.ack();
+  }
+  
+  public working(): void {}
+  
+  public json<T>(): T {
+    return JSON.parse(this.string());
+  }
+  
+  public string(): string {
+    return strings.decode(this.data);
+  }
+}
+
+class MemoryConsumerMessages implements JsConsumerMessages {
+  private _durable: MemoryDurable;
+  private _queue: MemoryQueue<MemoryJsMsg>;
+  private _statuses: MemoryQueue<never>;
+  
+  constructor(durable: MemoryDurable) {
+    this._durable = durable;
+    this._queue = new MemoryQueue();
+    this._statuses = new MemoryQueue();
+  }
+  
+  public deliver(message: MemoryJsMsg): void {
+    this._queue.push(message);
+  }
+  
+  public async status(): Promise<AsyncIterable<never>> {
+    return this._statuses;
+  }
+  
+  public stop(): void {
+    if (this._queue.stopped) {
+      return;
+    }
+    
+    this._queue.stop();
+    this._statuses.stop();
+    this._durable.detach(this);
+  }
+  
+  public [Symbol.asyncIterator](): AsyncIterator<MemoryJsMsg> {
+    return this._queue[Symbol.asyncIterator]();
+  }
+}
+
+type MemoryKvRecord = {
+  key: string;
+  value: Uint8Array;
+  operation: 'PUT' | 'DEL' | 'PURGE';
+  revision: number;
+  created: number;
+};
+
+type MemoryKvWatch = {
+  filter: string;
+  queue: MemoryQueue<KvEntry>;
+};
+
+class MemoryKvStore {
+  private _clock: Clock;
+  private _name: string;
+  private _ttl: number;
+  private _revision: number;
+  private _records: Map<string, MemoryKvRecord>;
+  private _watches: Set<MemoryKvWatch>;
+  
+  constructor(clock: Clock, name: string, ttl: number) {
+    this._clock = clock;
+    this._name = name;
+    this._ttl = ttl;
+    this._revision = 0;
+    this._records = new Map();
+    this._watches = new Set();
+  }
+  
+  private _entry(record: MemoryKvRecord): KvEntry {
+    return {
+      bucket: this._name,
+      key: record.key,
+      value: record.value,
+      created: new Date(record.created),
+      revision: record.revision,
+      delta: 0,
+      operation: record.operation,
+      length: record.value.length,
+      json: () => JSON.parse(strings.decode(record.value)),
+      string: () => strings.decode(record.value),
+    };
+  }
+  
+  private _live(key: string): MemoryKvRecord | undefined {
+    const record = this._records.get(key);
+    
+    if (record && this._ttl > 0 && record.created + this._ttl <= this._clock.now()) {
+      this._records.delete(key);
+      
+      return undefined;
+    }
+    
+    return record;
+  }
+  
+  private _write(
+    key: string,
+    value: Uint8Array,
+    operation: MemoryKvRecord['operation'],
+    expected?: number,
+  ): number {
+    const current = this._live(key);
+    
+    if (expected != undefined && (current?.revision ?? 0) != expected) {
+      throw wrongLastSequenceError(current?.revision ?? 0);
+    }
+    
+    const record = {
+      key,
+      value,
+      operation,
+      revision: ++this._revision,
+      created: this._clock.now(),
+    };
+    
+    this._records.set(key, record);
+    
+    const entry = this._entry(record);
+    
+    for (const watch of this._watches) {
+      if (matchSubject(watch.filter, key)) {
+        watch.queue.push(entry);
+      }
+    }
+    
+    return record.revision;
+  }
+  
+  public get(key: string): KvEntry | null {
+    const record = this._live(key);
+    
+    return record ? this._entry(record) : null;
+  }
+  
+  public put(key: string, value: Uint8Array): number {
+    return this._write(key, value, 'PUT');
+  }
+  
+  public create(key: string, value: Uint8Array): number {
+    const current = this._live(key);
+    
+    if (current && current.operation == 'PUT') {
+      throw wrongLastSequenceError(current.revision);
+    }
+    
+    return this._write(key, value, 'PUT', current?.revision ?? 0);
+  }
+  
+  public update(key: string, value: Uint8Array, revision: number): number {
+    return this._write(key, value, 'PUT', revision);
+  }
+  
+  public delete(key: string, operation: 'DEL' | 'PURGE', previousSeq?: number): void {
+    this._write(key, EMPTY, operation, previousSeq);
+  }
+  
+  public keys(filter: string): string[] {
+    const keys: string[] = [];
+    
+    for (const key of this._records.keys()) {
+      const record = this._live(key);
+      
+      if (record && record.operation == 'PUT' && matchSubject(filter, key)) {
+        keys.push(key);
+      }
+    }
+    
+    return keys;
+  }
+  
+  public watch(options: KvWatchOptions): MemoryKvWatcher {
+    const filter = (options.key as string | undefined) ?? '>';
+    const resume = options.resumeFromRevision ?? 0;
+    const queue = new MemoryQueue<KvEntry>();
+    const watch = { filter, queue };
+    const initial: MemoryKvRecord[] = [];
+    
+    for (const key of Array.from(this._records.keys())) {
+      const record = this._live(key);
+      
+      if (record && record.revision >= resume && matchSubject(filter, key)) {
+        initial.push(record);
+      }
+    }
+    
+    initial.sort((a, b) => a.revision - b.revision);
+    
+    for (const record of initial) {
+      queue.push(this._entry(record));
+    }
+    
+    if (options.initializedFn) {
+      queue.call(options.initializedFn);
+    }
+    
+    this._watches.add(watch);
+    
+    return new MemoryKvWatcher(queue, () => {
+      this._watches.delete(watch);
+    });
+  }
+}
+
+class MemoryKvWatcher implements KvWatch {
+  private _queue: MemoryQueue<KvEntry>;
+  private _release: Callback;
+  
+  constructor(queue: MemoryQueue<KvEntry>, release: Callback) {
+    this._queue = queue;
+    this._release = release;
+  }
+  
+  public stop(): void {
+    this._release();
+    this._queue.stop();
+  }
+  
+  public [Symbol.asyncIterator](): AsyncIterator<KvEntry> {
+    return this._queue[Symbol.asyncIterator]();
+  }
+}
+
+class MemoryKv implements KvStore {
+  private _store: MemoryKvStore;
+  
+  constructor(store: MemoryKvStore) {
+    this._store = store;
+  }
+  
+  public async get(key: string): Promise<KvEntry | null> {
+    return this._store.get(key);
+  }
+  
+  public async put(key: string, value: Uint8Array): Promise<number> {
+    return this._store.put(key, value);
+  }
+  
+  public async create(key: string, value: Uint8Array): Promise<number> {
+    return this._store.create(key, value);
+  }
+  
+  public async update(key: string, value: Uint8Array, revision: number): Promise<number> {
+    return this._store.update(key, value, revision);
+  }
+  
+  public async delete(key: string, options?: { previousSeq?: number }): Promise<void> {
+    this._store.delete(key, 'DEL', options?.previousSeq);
+  }
+  
+  public async purge(key: string, options?: { previousSeq?: number }): Promise<void> {
+    this._store.delete(key, 'PURGE', options?.previousSeq);
+  }
+  
+  public async keys(filter?: string): Promise<AsyncIterable<string>> {
+    const queue = new MemoryQueue<string>();
+    
+    for (const key of this._store.keys(filter ?? '>')) {
+      queue.push(key);
+    }
+    
+    queue.stop();
+    
+    return queue;
+  }
+  
+  public async watch(options?: KvWatchOptions): Promise<MemoryKvWatcher> {
+    return this._store.watch(options ?? {});
+  }
+}
+
+export type MemoryServerOptions = {
+  clock?: Clock;
+};
+
+export class MemoryServer {
+  private _connections: Set<MemoryConnection>;
+  private _subscribers: Set<MemorySubscriber>;
+  private _cursors: Map<string, number>;
+  private _streams: Map<string, MemoryStream>;
+  private _buckets: Map<string, MemoryKvStore>;
+  
+  public clock: Clock;
+  
+  constructor(options?: MemoryServerOptions) {
+    const {
+      clock = systemClock,
+    } = options ?? {};
+    
+    this._connections = new Set();
+    this._subscribers = new Set();
+    this._cursors = new Map();
+    this._streams = new Map();
+    this._buckets = new Map();
+    this.clock = clock;
+  }
+  
+  public connect(): MemoryConnection {
+    const connection = new MemoryConnection({ server: this });
+    
+    this._connections.add(connection);
+    
+    return connection;
+  }
+  
+  public disconnect(connection: MemoryConnection): void {
+    this._connections.delete(connection);
+  }
+  
+  // reports a connection status to every open connection, letting tests
+  // play through disconnects and reconnects without a real server
+  public notify(status: Status): void {
+    for (const connection of this._connections) {
+      connection.notify(status);
+    }
+  }
+  
+  public subscribe(subscriber: MemorySubscriber): void {
+    this._subscribers.add(subscriber);
+  }
+  
+  public unsubscribe(subscriber: MemorySubscriber): void {
+    this._subscribers.delete(subscriber);
+  }
+  
+  public publish(message: MemoryMessage): number {
+    const groups = new Map<string, MemorySubscriber[]>();
+    let delivered = 0;
+    
+    for (const subscriber of this._subscribers) {
+      if (!matchSubject(subscriber.subject, message.subject)) {
+        continue;
+      }
+      
+      if (subscriber.queue) {
+        const group = groups.get(subscriber.queue) ?? [];
+        
+        group.push(subscriber);
+        groups.set(subscriber.queue, group);
+      } else {
+        subscriber.deliver(message);
+        delivered++;
+      }
+    }
+    
+    for (const [queue, group] of groups) {
+      const cursor = this._cursors.get(queue) ?? 0;
+      
+      this._cursors.set(queue, cursor + 1);
+      group[cursor % group.length].deliver(message);
+      delivered++;
+    }
+    
+    return delivered;
+  }
+  
+  public store(message: MemoryMessage): { stream: string, seq: number } | undefined {
+    for (const stream of this._streams.values()) {
+      if (stream.matches(message.subject)) {
+        return { stream: stream.name, seq: stream.store(message) };
+      }
+    }
+    
+    return undefined;
+  }
+  
+  public addStream(config: Partial<StreamConfig>): MemoryStream {
+    let stream = this._streams.get(config.name!);
+    
+    if (!stream) {
+      stream = new MemoryStream(this.clock, config);
+      this._streams.set(stream.name, stream);
+    }
+    
+    return stream;
+  }
+  
+  public stream(name: string): MemoryStream {
+    const stream = this._streams.get(name);
+    if (!stream) {
+      throw new NatsError('stream not found', '404');
+    }
+    
+    return stream;
+  }
+  
+  public bucket(name: string, options?: Partial<KvOptions>): MemoryKvStore {
+    let bucket = this._buckets.get(name);
+    
+    if (!bucket) {
+      bucket = new MemoryKvStore(this.clock, name, options?.ttl ?? 0);
+      this._buckets.set(name, bucket);
+    }
+    
+    return bucket;
+  }
+}
+
+export type MemoryConnectionOptions = {
+  server: MemoryServer;
+};
+
+export class MemoryConnection implements CoreConnection {
+  private _server: MemoryServer;
+  private _subscriptions: Set<MemorySubscription>;
+  private _statuses: MemoryQueue<Status>;
+  private _closed: boolean;
+  
+  constructor(options: MemoryConnectionOptions) {
+    const {
+      server,
+    } = options;
+    
+    this._server = server;
+    this._subscriptions = new Set();
+    this._statuses = new MemoryQueue();
+    this._closed = false;
+  }
+  
+  private _check(): void {
+    if (this._closed) {
+      throw NatsError.errorForCode(ErrorCode.ConnectionClosed);
+    }
+  }
+  
+  public getServer(): string {
+    return 'memory';
+  }
+  
+  public isClosed(): boolean {
+    return this._closed;
+  }
+  
+  public isDraining(): boolean {
+    return false;
+  }
+  
+  public status(): AsyncIterable<Status> {
+    return this._statuses;
+  }
+  
+  public notify(status: Status): void {
+    this._statuses.push(status);
+  }
+  
+  public publish(subject: string, data?: Uint8Array, options?: PublishOptions): void {
+    this._check();
+    this._server.publish({
+      subject,
+      data: data ?? EMPTY,
+      headers: options?.headers,
+      reply: options?.reply,
+    });
+  }
+  
+  public subscribe(subject: string, options?: SubscriptionOptions): MemorySubscription {
+    this._check();
+    
+    const subscription = new MemorySubscription(this._server, subject, options);
+    
+    this._server.subscribe(subscription);
+    this._subscriptions.add(subscription);
+    
+    return subscription;
+  }
+  
+  public async request(
+    subject: string,
+    data?: Uint8Array,
+    options?: Partial<RequestOptions>,
+  ): Promise<Msg> {
+    this._check();
+    
+    const inbox = `_INBOX.${nanoid()}`;
+    const timeout = options?.timeout || 1000;
+    const clock = this._server.clock;
+    
+    return await new Promise<Msg>((resolve, reject) => {
+      const timer = clock.setTimeout(() => {
+        this._server.unsubscribe(subscriber);
+        reject(NatsError.errorForCode(ErrorCode.Timeout));
+      }, timeout);
+      
+      const subscriber: MemorySubscriber = {
+        subject: inbox,
+        deliver: message => {
+          clock.clearTimeout(timer);
+          this._server.unsubscribe(subscriber);
+          resolve(new MemoryMsg(this._server, message));
+        },
+      };
+      
+      this._server.subscribe(subscriber);
+      
+      const delivered = this._server.publish({
+        subject,
+        data: data ?? EMPTY,
+        headers: options?.headers,
+        reply: inbox,
+      });
+      
+      if (delivered == 0) {
+        clock.clearTimeout(timer);
+        this._server.unsubscribe(subscriber);
+        reject(NatsError.errorForCode(ErrorCode.NoResponders));
+      }
+    });
+  }
+  
+  public async flush(): Promise<void> {}
+  
+  public jetstream(): MemoryJetStreamClient {
+    return new MemoryJetStreamClient(this._server);
+  }
+  
+  public async jetstreamManager(): Promise<MemoryJetStreamManager> {
+    return new MemoryJetStreamManager(this._server);
+  }
+  
+  public async drain(): Promise<void> {
+    await this.close();
+  }
+  
+  public async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+    
+    this._closed = true;
+    
+    for (const subscription of this._subscriptions) {
+      subscription.unsubscribe();
+    }
+    
+    this._subscriptions.clear();
+    this._statuses.stop();
+    this._server.disconnect(this);
+  }
+}
+
+class MemoryJetStreamClient implements JsClient {
+  private _server: MemoryServer;
+  
+  public consumers: {
+    get(stream: string, name: string): Promise<JsConsumer>;
+  };
+  
+  public views: {
+    kv(name: string, options?: Partial<KvOptions>): Promise<KvStore>;
+  };
+  
+  constructor(server: MemoryServer) {
+    this._server = server;
+    this.consumers = {
+      get: async (stream, name) => {
+        const durable = this._server.stream(stream).durable(name);
+        if (!durable) {
+          throw consumerNotFoundError();
+        }
+        
+        return {
+          consume: async () => {
+            const messages = new MemoryConsumerMessages(durable);
+            
+            durable.attach(messages);
+            
+            return messages;
+          },
+        };
+      },
+    };
+    this.views = {
+      kv: async (name, options) => {
+        return new MemoryKv(this._server.bucket(name, options));
+      },
+    };
+  }
+  
+  public async publish(
+    subject: string,
+    data?: Uint8Array,
+    options?: Partial<PublishOptions>,
+  ): Promise<{ stream: string, seq: number, duplicate: boolean }> {
+    const ack = this._server.store({
+      subject,
+      data: data ?? EMPTY,
+      headers: options?.headers,
+    });
+    
+    if (!ack) {
+      throw NatsError.errorForCode(ErrorCode.NoResponders);
+    }
+    
+    return { ...ack, duplicate: false };
+  }
+}
+
+class MemoryJetStreamManager implements JsManager {
+  public streams: {
+    add(config: Partial<StreamConfig>): Promise<{ config: Partial<StreamConfig> }>;
+  };
+  
+  public consumers: {
+    add(
+      stream: string,
+      config: Partial<ConsumerConfig>,
+    ): Promise<{ stream_name: string, name: string, config: Partial<ConsumerConfig> }>;
+    info(stream: string, name: string): Promise<{ stream_name: string, name: string, config: Partial<ConsumerConfig> }>;
+    delete(stream: string, name: string): Promise<boolean>;
+  };
+  
+  constructor(server: MemoryServer) {
+    this.streams = {
+      add: async config => {
+        server.addStream(config);
+        
+        return { config };
+      },
+    };
+    this.consumers = {
+      add: async (stream, config) => {
+        const durable = server.stream(stream).addDurable(config);
+        
+        return { stream_name: stream, name: durable.name, config: durable.config };
+      },
+      info: async (stream, name) => {
+        const durable = server.stream(stream).durable(name);
+        if (!durable) {
+          throw consumerNotFoundError();
+        }
+        
+        return { stream_name: stream, name: durable.name, config: durable.config };
+      },
+      delete: async (stream, name) => {
+        return server.stream(stream).deleteDurable(name);
+      },
+    };
+  }
+}
+
+export type ConnectMemoryOptions = {
+  server?: MemoryServer;
+  options?: Partial<OvernatsGlobalOptions>;
+  codec?: MessageCodec;
+  codecs?: MessageCodec[];
+  clock?: Clock;
+  tracer?: Tracer;
+  metrics?: Metrics;
+  logger?: Logger;
+  uncaughtException?: ErrorCallback;
+};
+
+export async function connectMemory(name: string, options?: ConnectMemoryOptions): Promise<App> {
+  const {
+    server = new MemoryServer(),
+    options: globalOptions,
+    codec,
+    codecs,
+    clock = server.clock,
+    tracer,
+    metrics,
+    logger = new ConsoleLogger({ clock }),
+    uncaughtException = (err: unknown) => logger.error('uncaught exception', { err }),
+  } = options ?? {};
+  
+  const backend = new Backend({
+    core: server.connect(),
+    options: globalOptions,
+    codec,
+    codecs,
+    clock,
+    tracer,
+    metrics,
+    logger: logger.child({ app: name }),
+    uncaughtException,
+  });
+  
+  await backend.init();
+  
+  return new App({ backend, name });
+}
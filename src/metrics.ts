@@ -0,0 +1,208 @@
+export type MetricLabels = Record<string, string>;
+
+export type Metrics = {
+  increment(name: string, labels?: MetricLabels, value?: number): void;
+  observe(name: string, value: number, labels?: MetricLabels): void;
+};
+
+export type MetricType = 'counter' | 'histogram';
+
+export type MetricDefinition = {
+  type: MetricType;
+  help: string;
+};
+
+export const METRICS: Record<string, MetricDefinition> = {
+  service_requests_total: {
+    type: 'counter',
+    help: 'Service method requests handled',
+  },
+  service_errors_total: {
+    type: 'counter',
+    help: 'Service method requests answered with an error',
+  },
+  service_request_duration_seconds: {
+    type: 'histogram',
+    help: 'Service method handler duration',
+  },
+  consumer_acks_total: {
+    type: 'counter',
+    help: 'Consumer messages acknowledged',
+  },
+  consumer_naks_total: {
+    type: 'counter',
+    help: 'Consumer messages negatively acknowledged',
+  },
+  consumer_redeliveries_total: {
+    type: 'counter',
+    help: 'Consumer messages received more than once',
+  },
+  consumer_processing_duration_seconds: {
+    type: 'histogram',
+    help: 'Consumer callback duration',
+  },
+  bucket_lock_wait_seconds: {
+    type: 'histogram',
+    help: 'Time spent acquiring bucket locks',
+  },
+  bucket_lock_failures_total: {
+    type: 'counter',
+    help: 'Bucket locks that could not be acquired',
+  },
+  bucket_lease_lost_total: {
+    type: 'counter',
+    help: 'Bucket lock leases lost before release',
+  },
+  producer_rebalances_total: {
+    type: 'counter',
+    help: 'Producer shard distribution rebalances',
+  },
+  listener_failures_total: {
+    type: 'counter',
+    help: 'Listener callback and iteration failures',
+  },
+};
+
+export class NoopMetrics implements Metrics {
+  public increment(): void {}
+  public observe(): void {}
+}
+
+export const noopMetrics = new NoopMetrics();
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type CounterSeries = {
+  labels: MetricLabels;
+  value: number;
+};
+
+type HistogramSeries = {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+};
+
+export type PrometheusMetricsOptions = {
+  prefix?: string;
+  buckets?: number[];
+};
+
+export class PrometheusMetrics implements Metrics {
+  private _prefix: string;
+  private _buckets: number[];
+  private _counters: Map<string, Map<string, CounterSeries>>;
+  private _histograms: Map<string, Map<string, HistogramSeries>>;
+  
+  constructor(options?: PrometheusMetricsOptions) {
+    const {
+      prefix = 'overnats_',
+      buckets = DEFAULT_BUCKETS,
+    } = options ?? {};
+    
+    this._prefix = prefix;
+    this._buckets = [...buckets].sort((a, b) => a - b);
+    this._counters = new Map();
+    this._histograms = new Map();
+  }
+  
+  private _series<T>(
+    metrics: Map<string, Map<string, T>>,
+    name: string,
+    labels: MetricLabels,
+    create: () => T,
+  ): T {
+    let series = metrics.get(name);
+    if (!series) {
+      series = new Map();
+      metrics.set(name, series);
+    }
+    
+    const key = formatLabels(labels);
+    
+    let item = series.get(key);
+    if (!item) {
+      item = create();
+      series.set(key, item);
+    }
+    
+    return item;
+  }
+  
+  public increment(name: string, labels: MetricLabels = {}, value: number = 1): void {
+    const series = this._series(this._counters, name, labels, () => ({ labels, value: 0 }));
+    
+    series.value += value;
+  }
+  
+  public observe(name: string, value: number, labels: MetricLabels = {}): void {
+    const series = this._series(this._histograms, name, labels, () => ({
+      labels,
+      buckets: this._buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    
+    for (let i = 0; i < this._buckets.length; i++) {
+      if (value <= this._buckets[i]) {
+        series.buckets[i]++;
+      }
+    }
+    
+    series.sum += value;
+    series.count++;
+  }
+  
+  public render(): string {
+    const lines: string[] = [];
+    const header = (name: string, type: MetricType) => {
+      const help = METRICS[name]?.help;
+      
+      if (help) {
+        lines.push(`# HELP ${this._prefix}${name} ${help}`);
+      }
+      
+      lines.push(`# TYPE ${this._prefix}${name} ${type}`);
+    };
+    
+    for (const [name, series] of this._counters) {
+      header(name, 'counter');
+      
+      for (const { labels, value } of series.values()) {
+        lines.push(`${this._prefix}${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+    
+    for (const [name, series] of this._histograms) {
+      header(name, 'histogram');
+      
+      for (const { labels, buckets, sum, count } of series.values()) {
+        for (let i = 0; i < this._buckets.length; i++) {
+          const le = formatLabels({ ...labels, le: String(this._buckets[i]) });
+          
+          lines.push(`${this._prefix}${name}_bucket${le} ${buckets[i]}`);
+        }
+        
+        lines.push(`${this._prefix}${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${this._prefix}${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${this._prefix}${name}_count${formatLabels(labels)} ${count}`);
+      }
+    }
+    
+    return lines.join('\n') + '\n';
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length == 0) {
+    return '';
+  }
+  
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
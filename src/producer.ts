@@ -1,5 +1,9 @@
+import { headers as natsHeaders } from 'nats';
 import { type Destructible, type SubscribeParams, type SubscribeResult } from './types';
 import { hashOf, nanoid, distribute, sequence } from './utils';
+import { injectTrace, withSpan } from './tracing';
+import { type Logger } from './logger';
+import { type HealthReporter } from './health';
 import { type Backend } from './backend';
 import { type ClientOptions, Client } from './client';
 import { type Spawner } from './spawner';
@@ -43,6 +47,7 @@ export type ProducerOptions<P, E> = {
 
 export class Producer<P, E> {
   private _backend: Backend;
+  private _logger: Logger;
   private _name: string;
   private _shards: string[];
   private _replicas: number;
@@ -57,6 +62,7 @@ export class Producer<P, E> {
   private _instancesWatch!: Watcher<ProducerInstanceRecord>;
   private _service!: Service;
   private _heartbeat!: Timer;
+  private _health!: HealthReporter;
   
   constructor(options: ProducerOptions<P, E>) {
     const {
@@ -73,13 +79,22 @@ export class Producer<P, E> {
     this._replicas = replicas;
     this._callback = callback;
     this._instance = nanoid();
+    this._logger = backend.logger.child({ producer: name, instance: this._instance });
     this._crowd = new Map();
   }
   
   private async _online(now: Date): Promise<void> {
-    await this._instances.put(this._instance, {
-      seen: now.toISOString(),
-    });
+    try {
+      await this._instances.put(this._instance, {
+        seen: now.toISOString(),
+      });
+      
+      this._health.set('ok');
+    } catch (err) {
+      this._health.set('failing', 'heartbeat failed');
+      
+      throw err;
+    }
   }
   
   private async _rebalance(revision: number): Promise<void> {
@@ -94,6 +109,9 @@ export class Producer<P, E> {
       const distribution = distribute(instances, shards, replicas);
       
       await use({ shards, replicas, distribution, revision, author: this._instance });
+      
+      this._backend.metrics.increment('producer_rebalances_total', { producer: this._name });
+      this._logger.info('producer rebalanced', { revision, instances: instances.length });
     });
   }
   
@@ -104,16 +122,21 @@ export class Producer<P, E> {
       items.set(shard, undefined);
     }
     
+    this._logger.info('producer shards picked up', { shards });
+    
     await this._spawner.resetItems(items);
   }
   
   public async init(): Promise<void> {
-    this._spawner = await this._backend.spawner(async (key, value) => {
+    this._health = this._backend.health.reporter(`producer.${this._name}`);
+    this._spawner = await this._backend.spawner(async (shard, value) => {
       type SubscriptionRecord = ProducerSubscriptionRecord<P>;
       
-      const subscriptions = this._bucket.slice<SubscriptionRecord>(`subscriptions.${key}`);
+      const subscriptions = this._bucket.slice<SubscriptionRecord>(`subscriptions.${shard}`);
       
       const spawner = await this._backend.spawner<P, Destructible>(async (key, value) => {
+        this._logger.debug('producer worker spawning', { shard, key });
+        
         const accept = await this._callback(value, key);
         const workerClient = new ProducerClient({
           backend: this._backend,
@@ -178,14 +201,14 @@ export class Producer<P, E> {
       }
     }, { detach: true });
     
-    await this._online(new Date());
+    await this._online(new Date(this._backend.clock.now()));
     
     this._service = await this._backend.service(`producer.${this._name}`);
     
     const subscriptions = this._bucket.slice('subscriptions');
     
     await this._service.method<SubscribeParams<P>, SubscribeResult>('subscribe', async ctx => {
-      const now = new Date();
+      const now = new Date(this._backend.clock.now());
       const params = ctx.req.data.params;
       const hash = hashOf(params);
       const shard = this._shards[parseInt(hash.slice(-8), 16) % this._shards.length];
@@ -207,6 +230,8 @@ export class Producer<P, E> {
     this._heartbeat = await this._backend.localTimer(timerName, heartbeatInterval, async now => {
       await this._online(new Date(now));
     });
+    
+    this._logger.info('producer started');
   }
   
   public async destroy(): Promise<void> {
@@ -219,6 +244,9 @@ export class Producer<P, E> {
     
     await this._bucket.destroy();
     await this._spawner.destroy();
+    await this._health.destroy();
+    
+    this._logger.info('producer stopped');
   }
 }
 
@@ -231,6 +259,15 @@ export class ProducerClient<E> extends Client {
   }
   
   public async emit(event: E): Promise<void> {
-    await this._backend.js.publish(this._name, this._backend.encode(event));
+    await withSpan(this._backend.tracer, `emit ${this._name}`, {
+      kind: 'producer',
+      attributes: { 'overnats.stream': this._name },
+    }, async () => {
+      const headers = natsHeaders();
+      
+      injectTrace(headers);
+      
+      await this._backend.js.publish(this._name, this._backend.encode(event, headers), { headers });
+    });
   }
 }
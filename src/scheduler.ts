@@ -1,24 +1,30 @@
+import { type Clock, type ClockTimer } from './clock';
+
 export type ScheduleCallback = (delay: number) => void;
 
 export type SchedulerCallback = (now: number, schedule: ScheduleCallback) => Promise<void>;
 
 export type SchedulerOptions = {
+  clock: Clock;
   callback: SchedulerCallback;
 };
 
 export class Scheduler {
+  private _clock: Clock;
   private _callback: SchedulerCallback;
-  private _timeout: NodeJS.Timeout | undefined;
+  private _timeout: ClockTimer | undefined;
   private _destroyed: boolean;
   
   constructor(options: SchedulerOptions) {
     const {
+      clock,
       callback,
     } = options;
     
     this._tick = this._tick.bind(this);
     this.schedule = this.schedule.bind(this);
     
+    this._clock = clock;
     this._callback = callback;
     this._timeout = undefined;
     this._destroyed = false;
@@ -26,7 +32,7 @@ export class Scheduler {
   
   private _tick(): void {
     this._timeout = undefined;
-    this._callback(Date.now(), this.schedule);
+    this._callback(this._clock.now(), this.schedule);
   }
   
   public schedule(delay: number): void {
@@ -34,12 +40,12 @@ export class Scheduler {
       return;
     }
     
-    this._timeout = setTimeout(this._tick, delay);
+    this._timeout = this._clock.setTimeout(this._tick, delay);
   }
   
   public async destroy(): Promise<void> {
     if (this._timeout) {
-      clearTimeout(this._timeout);
+      this._clock.clearTimeout(this._timeout);
     }
     
     this._destroyed = true;
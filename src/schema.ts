@@ -0,0 +1,217 @@
+import { OvernatsError, OvernatsClientError } from './errors';
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+export type Schema<T> = {
+  validate(value: unknown): SchemaIssue[];
+  readonly type?: T;
+};
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+};
+
+export class JsonSchemaValidator<T> implements Schema<T> {
+  private _schema: JsonSchema;
+  
+  constructor(schema: JsonSchema) {
+    this._schema = schema;
+  }
+  
+  public validate(value: unknown): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    
+    check(this._schema, value, '', issues);
+    
+    return issues;
+  }
+}
+
+export function jsonSchema<T>(schema: JsonSchema): Schema<T> {
+  return new JsonSchemaValidator<T>(schema);
+}
+
+export function assertParams<T>(schema: Schema<T> | undefined, value: unknown): asserts value is T {
+  const issues = schema?.validate(value) ?? [];
+  
+  if (issues.length > 0) {
+    throw new OvernatsClientError('invalid params', { details: { fields: issues } });
+  }
+}
+
+export function assertResult<T>(schema: Schema<T> | undefined, value: unknown): asserts value is T {
+  const issues = schema?.validate(value) ?? [];
+  
+  if (issues.length > 0) {
+    throw new OvernatsError('invalid result', { details: { fields: issues } });
+  }
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null';
+  }
+  
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  
+  if (typeof value == 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  
+  if (typeof value == 'string' || typeof value == 'boolean' || typeof value == 'object') {
+    return typeof value as JsonSchemaType;
+  }
+  
+  return 'undefined';
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key == 'number') {
+    return `${path}[${key}]`;
+  }
+  
+  return path ? `${path}.${key}` : key;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const issue = (message: string) => {
+    issues.push({ path, message });
+  };
+  
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = types.some(type => type == actual || (type == 'number' && actual == 'integer'));
+    
+    if (!matches) {
+      issue(`must be ${types.join(' or ')}`);
+      
+      return;
+    }
+  }
+  
+  if (schema.enum && !schema.enum.some(item => item === value)) {
+    issue(`must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+  
+  if ('const' in schema && schema.const !== value) {
+    issue(`must be ${JSON.stringify(schema.const)}`);
+  }
+  
+  if (typeof value == 'string') {
+    if (schema.minLength != undefined && value.length < schema.minLength) {
+      issue(`must be at least ${schema.minLength} characters long`);
+    }
+    
+    if (schema.maxLength != undefined && value.length > schema.maxLength) {
+      issue(`must be at most ${schema.maxLength} characters long`);
+    }
+    
+    if (schema.pattern != undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      issue(`must match pattern ${schema.pattern}`);
+    }
+  }
+  
+  if (typeof value == 'number') {
+    if (schema.minimum != undefined && value < schema.minimum) {
+      issue(`must be >= ${schema.minimum}`);
+    }
+    
+    if (schema.maximum != undefined && value > schema.maximum) {
+      issue(`must be <= ${schema.maximum}`);
+    }
+    
+    if (schema.exclusiveMinimum != undefined && value <= schema.exclusiveMinimum) {
+      issue(`must be > ${schema.exclusiveMinimum}`);
+    }
+    
+    if (schema.exclusiveMaximum != undefined && value >= schema.exclusiveMaximum) {
+      issue(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+  
+  if (Array.isArray(value)) {
+    if (schema.minItems != undefined && value.length < schema.minItems) {
+      issue(`must have at least ${schema.minItems} items`);
+    }
+    
+    if (schema.maxItems != undefined && value.length > schema.maxItems) {
+      issue(`must have at most ${schema.maxItems} items`);
+    }
+    
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        check(schema.items, value[i], join(path, i), issues);
+      }
+    }
+  } else if (value && typeof value == 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        issues.push({ path: join(path, key), message: 'is required' });
+      }
+    }
+    
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) {
+        continue;
+      }
+      
+      const property = properties[key];
+      
+      if (property) {
+        check(property, item, join(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties == 'object') {
+        check(schema.additionalProperties, item, join(path, key), issues);
+      }
+    }
+  }
+  
+  if (schema.allOf) {
+    for (const item of schema.allOf) {
+      check(item, value, path, issues);
+    }
+  }
+  
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(item => {
+      const nested: SchemaIssue[] = [];
+      
+      check(item, value, path, nested);
+      
+      return nested.length == 0;
+    });
+    
+    if (!matches) {
+      issue('must match at least one schema');
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { OvernatsError } from './errors';
+import { type LockCallback, type LockOptions } from './lease';
+import { type Bucket } from './bucket';
+
+export type SemaphoreOptions = {
+  bucket: Bucket<void>;
+  key: string;
+  permits: number;
+};
+
+export class Semaphore {
+  private _bucket: Bucket<void>;
+  private _key: string;
+  private _permits: number;
+  
+  constructor(options: SemaphoreOptions) {
+    const {
+      bucket,
+      key,
+      permits,
+    } = options;
+    
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new OvernatsError('invalid semaphore permits', { details: { key, permits } });
+    }
+    
+    this._bucket = bucket;
+    this._key = key;
+    this._permits = permits;
+  }
+  
+  public get permits(): number {
+    return this._permits;
+  }
+  
+  public async held(): Promise<number> {
+    return await this._bucket.held(this._key);
+  }
+  
+  public async acquire(callback: LockCallback, options?: LockOptions): Promise<void> {
+    await this._bucket.acquire(this._key, this._permits, callback, options);
+  }
+}
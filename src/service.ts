@@ -1,65 +1,419 @@
-import { serializeError } from './errors';
+import { setMaxListeners } from 'node:events';
+import { type AsyncCallback, type Destructible } from './types';
+import { OvernatsError, OvernatsOverloadedError, serializeError } from './errors';
+import { Limiter, Mutex, nanoid, linkSignals } from './utils';
+import {
+  type HeadersRecord,
+  TIMEOUT_HEADER,
+  CALLER_APP_HEADER,
+  CALLER_CLIENT_HEADER,
+  REQUEST_ID_HEADER,
+  readHeaders,
+} from './headers';
+import { type ClockTimer } from './clock';
+import { type SpanContext, currentSpanContext, withSpan } from './tracing';
+import { type Schema, assertParams, assertResult } from './schema';
+import {
+  type ServiceDiscoveryOptions,
+  type ServiceMethodStats,
+  type DiscoveryEndpoint,
+  Discovery,
+} from './discovery';
 import { Autodestructible } from './autodestructible';
+import { AutoabortableError } from './autoabortable';
+import { type Leader } from './leader';
 import { type Backend } from './backend';
-import { type SubscriptionMessage } from './subscription';
+import {
+  type SubscriptionMessage,
+  type SubscriptionCallback,
+} from './subscription';
+
+export type ServiceCaller = {
+  app?: string;
+  client?: string;
+  requestId?: string;
+};
 
 export type ServiceMethodRequest<T> = {
   data: T;
+  headers: HeadersRecord;
+  caller: ServiceCaller;
 };
 
 export type ServiceMethodResponse<T> = {
   data: T;
+  headers: HeadersRecord;
 };
 
 export type ServiceMethodContext<P, R> = {
+  service: string;
+  method: string;
   req: ServiceMethodRequest<P>;
   res: ServiceMethodResponse<R>;
+  deadline: number | undefined;
+  signal: AbortSignal;
 };
 
 export type ServiceMethodCallback<P, R> = (ctx: ServiceMethodContext<P, R>) => Promise<void>;
 
+export type ServiceMiddleware<P = unknown, R = unknown> = (
+  ctx: ServiceMethodContext<P, R>,
+  next: AsyncCallback,
+) => Promise<void>;
+
+export type ServiceMethodOptions<P, R> = {
+  middleware?: ServiceMiddleware<P, R>[];
+  params?: Schema<P>;
+  result?: Schema<R>;
+  concurrency?: number;
+  queue?: number;
+};
+
+export type ServiceBackendOptions = {
+  discovery?: ServiceDiscoveryOptions | boolean;
+  singleton?: boolean;
+};
+
 export type ServiceOptions = {
   backend: Backend;
   name: string;
+  options?: ServiceBackendOptions;
+};
+
+type ServiceSingleton = {
+  endpoint: DiscoveryEndpoint;
+  serve: () => Promise<Destructible>;
 };
 
 export class Service extends Autodestructible {
   private _backend: Backend;
   private _name: string;
+  private _id: string;
+  private _options: ServiceBackendOptions;
+  private _middleware: ServiceMiddleware[];
+  private _endpoints: DiscoveryEndpoint[];
+  private _controller: AbortController;
+  private _signal!: AbortSignal;
+  private _mutex: Mutex;
+  private _singletons: ServiceSingleton[];
+  private _term: Destructible[] | undefined;
+  private _leader: Leader | undefined;
   
   constructor(options: ServiceOptions) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
       name,
+      options: backendOptions = {},
     } = options;
     
     this._backend = backend;
     this._name = name;
+    this._id = nanoid();
+    this._options = backendOptions;
+    this._middleware = [];
+    this._endpoints = [];
+    this._controller = new AbortController();
+    this._mutex = new Mutex();
+    this._singletons = [];
+    this._term = undefined;
+    this._leader = undefined;
   }
   
-  public async method<P, R>(name: string, callback: ServiceMethodCallback<P, R>): Promise<void> {
-    const subject = `${this._name}.${name}`;
-    const subscription = await this._backend.subscribe<P>(subject, async message => {
-      const ctx = context<P, R>(message);
+  // a singleton answers only for as long as this instance is the leader, and
+  // callers get no responders while the next one is being elected
+  private async _elected(): Promise<Destructible> {
+    await this._mutex.lock(async () => {
+      const term: Destructible[] = [];
+      
+      this._term = term;
+      
+      for (const singleton of this._singletons) {
+        term.push(await singleton.serve());
+      }
+    });
+    
+    return {
+      destroy: async () => {
+        await this._mutex.lock(async () => {
+          const term = this._term ?? [];
+          
+          this._term = undefined;
+          
+          for (const subscription of term) {
+            await subscription.destroy();
+          }
+        });
+      },
+    };
+  }
+  
+  // followers do not answer for the singleton methods, so they do not
+  // advertise them either
+  private _advertised(): DiscoveryEndpoint[] {
+    if (!this._term) {
+      return this._endpoints;
+    }
+    
+    return [...this._endpoints, ...this._singletons.map(singleton => singleton.endpoint)];
+  }
+  
+  public get id(): string {
+    return this._id;
+  }
+  
+  public async init(): Promise<void> {
+    const { discovery, singleton } = this._options;
+    
+    // requests link to this one signal instead of to the app-wide one each
+    this._signal = linkSignals([this._controller.signal, this._backend.signal]).signal;
+    setMaxListeners(0, this._signal);
+    
+    if (discovery) {
+      const discoveryOptions = (discovery === true) ? {} : discovery;
+      const instance = new Discovery({
+        backend: this._backend,
+        name: this._name.replace(/^app\./, ''),
+        id: this._id,
+        ...discoveryOptions,
+        endpoints: () => this._advertised(),
+      });
       
+      await instance.init();
+      
+      this.use(instance);
+    }
+    
+    if (singleton) {
       try {
-        await callback(ctx);
-        
-        message.respond({ result: ctx.res.data });
+        this._leader = await this._backend.leader(`service.${this._name}`, {
+          onElected: async () => await this._elected(),
+        });
       } catch (err) {
-        message.respond({ error: serializeError(err) });
+        // the discovery would otherwise outlive a service that never started
+        await this.destroy();
+        
+        throw err;
       }
-    }, { queue: subject });
+    }
+  }
+  
+  // runs around every method of the service, before per-method middleware
+  public middleware(middleware: ServiceMiddleware): this {
+    this._middleware.push(middleware);
     
-    this.use(subscription);
+    return this;
+  }
+  
+  public async method<P, R>(
+    name: string,
+    callback: ServiceMethodCallback<P, R>,
+    options?: ServiceMethodOptions<P, R>,
+  ): Promise<void> {
+    const subject = `${this._name}.${name}`;
+    const {
+      middleware = [],
+      params,
+      result,
+      concurrency,
+      queue,
+    } = options ?? {};
+    const validated: ServiceMethodCallback<P, R> = async ctx => {
+      assertParams(params, ctx.req.data);
+      
+      await callback(ctx);
+      
+      assertResult(result, ctx.res.data);
+    };
+    const stats: ServiceMethodStats = {
+      requests: 0,
+      errors: 0,
+      lastError: '',
+      processingTime: 0,
+    };
+    const limiter = new Limiter({ trapdoor: this._backend, concurrency, queue });
+    const shed = (message: SubscriptionMessage<P>, reason: string) => {
+      const err = new OvernatsOverloadedError('service overloaded', {
+        details: {
+          method: subject,
+          reason,
+          active: limiter.active,
+          pending: limiter.pending,
+        },
+      });
+      
+      stats.requests++;
+      stats.errors++;
+      stats.lastError = 'service overloaded';
+      
+      this._backend.metrics.increment('service_requests_total', { method: subject });
+      this._backend.metrics.increment('service_errors_total', { method: subject, code: 'EOVERLOADED' });
+      
+      message.respond({ error: serializeError(err) });
+    };
+    const handle = async (
+      message: SubscriptionMessage<P>,
+      deadline: number | undefined,
+      parent: SpanContext | undefined,
+    ) => {
+      const clock = this._backend.clock;
+      const started = clock.now();
+      
+      if (deadline != undefined && started >= deadline) {
+        shed(message, 'deadline exceeded');
+        
+        return;
+      }
+      
+      const controller = new AbortController();
+      
+      let timer: ClockTimer | undefined;
+      
+      if (deadline != undefined) {
+        timer = clock.setTimeout(() => {
+          controller.abort(new OvernatsError('deadline exceeded', { details: { method: subject } }));
+        }, deadline - started);
+      }
+      
+      // the service outlives the request, so the link has to come off it once
+      // it is answered
+      const link = linkSignals([controller.signal, this._signal]);
+      const ctx = context<P, R>(this._name, name, message, deadline, link.signal);
+      const handler = compose([...this._middleware, ...middleware], validated);
+      
+      await withSpan(this._backend.tracer, `serve ${subject}`, {
+        kind: 'server',
+        parent,
+        attributes: { 'overnats.method': subject },
+      }, async span => {
+        const metrics = this._backend.metrics;
+        
+        try {
+          await handler(ctx);
+          
+          message.respond({ result: ctx.res.data }, ctx.res.headers);
+        } catch (err) {
+          const serialized = serializeError(err);
+          
+          span.recordError(err);
+          
+          stats.errors++;
+          stats.lastError = (err instanceof Error) ? err.message : String(err);
+          metrics.increment('service_errors_total', { method: subject, code: serialized.code });
+          
+          message.respond({ error: serialized });
+        } finally {
+          if (timer) {
+            clock.clearTimeout(timer);
+          }
+          
+          link.unlink();
+          
+          const elapsed = clock.now() - started;
+          
+          stats.requests++;
+          stats.processingTime += elapsed;
+          metrics.increment('service_requests_total', { method: subject });
+          metrics.observe('service_request_duration_seconds', elapsed / 1000, { method: subject });
+        }
+      });
+    };
+    
+    this.use(limiter);
+    
+    const receive: SubscriptionCallback<P> = async message => {
+      const timeout = parseInt(message.headers?.get(TIMEOUT_HEADER) ?? '', 10);
+      const deadline = Number.isNaN(timeout) ? undefined : this._backend.clock.now() + timeout;
+      
+      // queued requests run in the async context of whichever request freed
+      // the slot, so the parent span is captured here
+      const parent = currentSpanContext();
+      
+      if (!limiter.schedule(async () => await handle(message, deadline, parent))) {
+        shed(message, 'queue is full');
+      }
+    };
+    const endpoint = { name, subject, queue: subject, stats };
+    const serve = async () => await this._backend.subscribe(subject, receive, { queue: subject });
+    
+    if (this._leader) {
+      await this._mutex.lock(async () => {
+        this._singletons.push({ endpoint, serve });
+        this._term?.push(await serve());
+      });
+      
+      return;
+    }
+    
+    this._endpoints.push(endpoint);
+    this.use(await serve());
+  }
+  
+  // handlers still in flight see the abort before their subscriptions drain
+  public override async destroy(): Promise<void> {
+    this._controller.abort(new AutoabortableError());
+    
+    // stepping down drains the singleton subscriptions before the limiters
+    // they feed go away
+    try {
+      await this._leader?.destroy();
+    } finally {
+      await super.destroy();
+    }
   }
 }
 
-function context<P, R>(message: SubscriptionMessage<P>): ServiceMethodContext<P, R> {
+function compose<P, R>(
+  middleware: ServiceMiddleware<P, R>[],
+  callback: ServiceMethodCallback<P, R>,
+): ServiceMethodCallback<P, R> {
+  return async ctx => {
+    let index = -1;
+    
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new OvernatsError('next() called multiple times', {
+          details: { method: `${ctx.service}.${ctx.method}` },
+        });
+      }
+      
+      index = i;
+      
+      if (i == middleware.length) {
+        await callback(ctx);
+      } else {
+        await middleware[i](ctx, async () => await dispatch(i + 1));
+      }
+    };
+    
+    await dispatch(0);
+  };
+}
+
+function context<P, R>(
+  service: string,
+  method: string,
+  message: SubscriptionMessage<P>,
+  deadline: number | undefined,
+  signal: AbortSignal,
+): ServiceMethodContext<P, R> {
+  const headers = message.headers;
+  
   return {
-    req: { data: message.data },
-    res: { data: undefined as R },
+    service,
+    method,
+    req: {
+      data: message.data,
+      headers: readHeaders(headers),
+      caller: {
+        app: headers?.get(CALLER_APP_HEADER) || undefined,
+        client: headers?.get(CALLER_CLIENT_HEADER) || undefined,
+        requestId: headers?.get(REQUEST_ID_HEADER) || undefined,
+      },
+    },
+    res: { data: undefined as R, headers: {} },
+    deadline,
+    signal,
   };
 };
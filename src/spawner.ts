@@ -1,35 +1,58 @@
-import { type Destructible } from './types';
+import { type Callback, type Destructible } from './types';
 import { OvernatsError } from './errors';
-import { Mutex, hashOf } from './utils';
+import { type SignalLink, Mutex, hashOf, linkSignals } from './utils';
+import { type Logger, noopLogger } from './logger';
+import { AutoabortableError } from './autoabortable';
 
-export type SpawnCallback<T, I extends Destructible> = (key: string, value: T) => Promise<I>;
+export type SpawnCallback<T, I extends Destructible> = (
+  key: string,
+  value: T,
+  signal: AbortSignal,
+) => Promise<I>;
 
 export type ForEachCallback<I> = (item: I) => Promise<void>;
 
 export type SpawnerOptions<T, I extends Destructible> = {
+  logger?: Logger;
+  signal?: AbortSignal;
   callback: SpawnCallback<T, I>;
 };
 
 export class Spawner<T, I extends Destructible> {
+  private _logger: Logger;
+  private _signal: AbortSignal | undefined;
   private _callback: SpawnCallback<T, I>;
   private _mutex: Mutex;
-  private _items: Map<string, { hash: string, item: I }>;
+  private _items: Map<string, { hash: string, item: I, controller: AbortController, unlink: Callback }>;
   
   constructor(options: SpawnerOptions<T, I>) {
     const {
+      logger = noopLogger,
+      signal,
       callback,
     } = options;
     
+    this._logger = logger;
+    this._signal = signal;
     this._callback = callback;
     this._mutex = new Mutex();
     this._items = new Map();
   }
   
   private async _spawnItem(key: string, value: T, hash: string): Promise<void> {
+    const controller = new AbortController();
+    const link: SignalLink = this._signal
+      ? linkSignals([controller.signal, this._signal])
+      : { signal: controller.signal, unlink: () => {} };
+    
     try {
-      const item = await this._callback(key, value);
-      this._items.set(key, { hash, item });
+      const item = await this._callback(key, value, link.signal);
+      this._items.set(key, { hash, item, controller, unlink: link.unlink });
+      this._logger.debug('spawner item spawned', { key });
     } catch (err) {
+      controller.abort(err);
+      link.unlink();
+      
       throw new OvernatsError('spawner spawn item error', {
         cause: err,
         details: { key },
@@ -44,8 +67,11 @@ export class Spawner<T, I extends Destructible> {
         return;
       }
       
+      entry.controller.abort(new AutoabortableError());
+      entry.unlink();
       await entry.item.destroy();
       this._items.delete(key);
+      this._logger.debug('spawner item destroyed', { key });
     } catch (err) {
       throw new OvernatsError('spawner destroy item error', {
         cause: err,
@@ -1,5 +1,8 @@
-import { type Subscription as NatsSubscription, Msg as NatsMsg } from 'nats';
+import { type Msg as NatsMsg, type MsgHdrs, headers as natsHeaders } from 'nats';
+import { type CoreSubscription } from './connection';
 import { OvernatsError } from './errors';
+import { type HeadersRecord, writeHeaders } from './headers';
+import { extractTrace, withSpan } from './tracing';
 import { type Listener } from './listener';
 import { type Backend } from './backend';
 
@@ -7,10 +10,11 @@ export type SubscriptionBackendOptions = {
   queue?: string | undefined;
 };
 
-export type SubscriptionMessageRespondCallback = (data?: unknown) => void;
+export type SubscriptionMessageRespondCallback = (data?: unknown, headers?: HeadersRecord) => void;
 
 export type SubscriptionMessage<T> = {
   subject: string;
+  headers?: MsgHdrs;
   data: T;
   respond: SubscriptionMessageRespondCallback;
 };
@@ -29,7 +33,7 @@ export class Subscription<T> {
   private _subject: string;
   private _options?: SubscriptionBackendOptions;
   private _callback: SubscriptionCallback<T>;
-  private _subscription!: NatsSubscription;
+  private _subscription!: CoreSubscription;
   private _subscriptionListener!: Listener<NatsMsg>;
   
   constructor(options: SubscriptionOptions<T>) {
@@ -53,12 +57,22 @@ export class Subscription<T> {
       this._subscription,
       async message => {
         try {
-          await this._callback({
-            subject: message.subject,
-            data: this._backend.decode(message.data) as T,
-            respond: data => {
-              message.respond(this._backend.encode(data));
-            },
+          await withSpan(this._backend.tracer, `receive ${this._subject}`, {
+            kind: 'consumer',
+            parent: extractTrace(message.headers),
+            attributes: { 'overnats.subject': message.subject },
+          }, async () => {
+            await this._callback({
+              subject: message.subject,
+              headers: message.headers,
+              data: this._backend.decode(message.data, message.headers) as T,
+              respond: (data, record) => {
+                const headers = natsHeaders();
+                
+                writeHeaders(headers, record);
+                message.respond(this._backend.encode(data, headers), { headers });
+              },
+            });
           });
         } catch (err) {
           throw new OvernatsError('subscription error', {
@@ -1,19 +1,22 @@
-import { type Destructible } from './types';
+import { type Callback, type Destructible } from './types';
 import { type CompareCallback, defaultCompare } from './utils';
-import { Mutex } from './utils';
+import { type SignalLink, Mutex, linkSignals } from './utils';
+import { AutoabortableError } from './autoabortable';
 
-export type SummonCallback<P> = (params: P) => Promise<Destructible>;
+export type SummonCallback<P> = (params: P, signal: AbortSignal) => Promise<Destructible>;
 
 export type SummonerMoreOptions<P> = {
   compare?: CompareCallback<P>;
 };
 
 export type SummonerOptions<P> = SummonerMoreOptions<P> & {
+  signal?: AbortSignal;
   callback: SummonCallback<P>;
 };
 
 export class Summoner<P> {
   private _compare: CompareCallback<P>;
+  private _signal: AbortSignal | undefined;
   private _callback: SummonCallback<P>;
   private _mutex: Mutex;
   private _ghost: Ghost<P> | undefined;
@@ -21,18 +24,32 @@ export class Summoner<P> {
   constructor(options: SummonerOptions<P>) {
     const {
       compare = defaultCompare,
+      signal,
       callback,
     } = options;
     
     this._compare = compare;
+    this._signal = signal;
     this._callback = callback;
     this._mutex = new Mutex();
     this._ghost = undefined;
   }
   
   private async _spawn(params: P): Promise<void> {
-    const object = await this._callback(params);
-    this._ghost = { params, object };
+    const controller = new AbortController();
+    const link: SignalLink = this._signal
+      ? linkSignals([controller.signal, this._signal])
+      : { signal: controller.signal, unlink: () => {} };
+    
+    try {
+      const object = await this._callback(params, link.signal);
+      this._ghost = { params, object, controller, unlink: link.unlink };
+    } catch (err) {
+      controller.abort(err);
+      link.unlink();
+      
+      throw err;
+    }
   }
   
   private async _kill(): Promise<void> {
@@ -40,6 +57,8 @@ export class Summoner<P> {
       return;
     }
     
+    this._ghost.controller.abort(new AutoabortableError());
+    this._ghost.unlink();
     await this._ghost.object.destroy();
     this._ghost = undefined;
   }
@@ -78,4 +97,6 @@ export class Summoner<P> {
 type Ghost<P> = {
   params: P;
   object: Destructible;
+  controller: AbortController;
+  unlink: Callback;
 }
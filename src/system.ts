@@ -10,7 +10,7 @@ export class System extends Autodestructible {
   private _backend: Backend;
   
   constructor(options: SystemOptions) {
-    super();
+    super(options.backend.clock);
     
     const {
       backend,
@@ -25,6 +25,6 @@ export class System extends Autodestructible {
       name: name || 'default',
     });
     
-    return this.use(client);
+    return this.use(client, { group: 'clients' });
   }
 }
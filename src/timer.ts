@@ -1,24 +1,33 @@
+import { type ClockTimer } from './clock';
+import { OvernatsError } from './errors';
+import { type SignalLink, linkSignals } from './utils';
 import { type Backend } from './backend';
+import { AutoabortableError } from './autoabortable';
 
-export type TimerCallback = (now: number) => Promise<void>;
+export type TimerCallback = (now: number, signal: AbortSignal) => Promise<void>;
 
 export type TimerOptions = {
   backend: Backend;
+  name: string;
   interval: number;
   callback: TimerCallback;
 };
 
 export class Timer {
   private _backend: Backend;
+  private _name: string;
   private _started: number;
   private _interval: number;
   private _callback: TimerCallback;
-  private _timer: NodeJS.Timeout | undefined;
+  private _timer: ClockTimer | undefined;
+  private _controller: AbortController;
+  private _link: SignalLink;
   private _destroyed: boolean;
   
   constructor(options: TimerOptions) {
     const {
       backend,
+      name,
       interval,
       callback,
     } = options;
@@ -27,9 +36,12 @@ export class Timer {
     this._tick = this._tick.bind(this);
     
     this._backend = backend;
-    this._started = Date.now();
+    this._name = name;
+    this._started = backend.clock.now();
     this._interval = interval;
     this._callback = callback;
+    this._controller = new AbortController();
+    this._link = linkSignals([this._controller.signal, backend.signal]);
     this._destroyed = false;
   }
   
@@ -38,25 +50,26 @@ export class Timer {
       return;
     }
     
-    const now = Date.now();
+    const now = this._backend.clock.now();
     const elapsed = now - this._started;
     const timeout = this._interval - (elapsed % this._interval);
     
-    this._timer = setTimeout(this._tick, timeout);
+    this._timer = this._backend.clock.setTimeout(this._tick, timeout);
   }
   
   private _tick(): void {
-    const now = Date.now();
+    const now = this._backend.clock.now();
     
     this._started = now;
     this._timer = undefined;
     
-    this._callback(now)
+    this._callback(now, this._link.signal)
       .then(this._schedule)
       .catch(err => {
-        console.log('timer callback error catched', { err });
-        
-        this._backend.uncaughtException(err);
+        this._backend.uncaughtException(new OvernatsError('timer callback failed', {
+          cause: err,
+          details: { timer: this._name },
+        }));
         this._schedule();
       })
     ;
@@ -67,8 +80,11 @@ export class Timer {
   }
   
   public async destroy(): Promise<void> {
+    this._controller.abort(new AutoabortableError());
+    this._link.unlink();
+    
     if (this._timer) {
-      clearTimeout(this._timer);
+      this._backend.clock.clearTimeout(this._timer);
     }
     
     this._destroyed = true;
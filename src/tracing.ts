@@ -0,0 +1,118 @@
+import crypto from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { type MsgHdrs } from 'nats';
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+export type SpanContext = {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+};
+
+export type SpanKind = 'client' | 'server' | 'producer' | 'consumer' | 'internal';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type SpanOptions = {
+  kind: SpanKind;
+  parent?: SpanContext;
+  attributes?: SpanAttributes;
+};
+
+export type Span = {
+  readonly context: SpanContext;
+  setAttribute(key: string, value: string | number | boolean): void;
+  recordError(err: unknown): void;
+  end(): void;
+};
+
+export type Tracer = {
+  startSpan(name: string, options: SpanOptions): Span;
+};
+
+export type SpanCallback<T> = (span: Span) => Promise<T>;
+
+export function traceId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+export function spanId(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+// creates span contexts without recording anything, so that trace ids are
+// still propagated between hops when no tracing backend is connected
+export class NoopTracer implements Tracer {
+  public startSpan(name: string, options: SpanOptions): Span {
+    const context = {
+      traceId: options.parent?.traceId ?? traceId(),
+      spanId: spanId(),
+      sampled: options.parent?.sampled ?? false,
+    };
+    
+    return {
+      context,
+      setAttribute() {},
+      recordError() {},
+      end() {},
+    };
+  }
+}
+
+export const noopTracer = new NoopTracer();
+
+const storage = new AsyncLocalStorage<SpanContext>();
+
+export function currentSpanContext(): SpanContext | undefined {
+  return storage.getStore();
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+export function parseTraceparent(value: string | undefined): SpanContext | undefined {
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(value?.trim() ?? '');
+  if (!match || match[1] == 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return undefined;
+  }
+  
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    sampled: (parseInt(match[4], 16) & 1) == 1,
+  };
+}
+
+export function injectTrace(headers: MsgHdrs, context = currentSpanContext()): void {
+  if (context) {
+    headers.set(TRACEPARENT_HEADER, formatTraceparent(context));
+  }
+}
+
+export function extractTrace(headers: MsgHdrs | undefined): SpanContext | undefined {
+  return parseTraceparent(headers?.get(TRACEPARENT_HEADER));
+}
+
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  options: SpanOptions,
+  callback: SpanCallback<T>,
+): Promise<T> {
+  const span = tracer.startSpan(name, {
+    ...options,
+    parent: options.parent ?? currentSpanContext(),
+  });
+  
+  try {
+    return await storage.run(span.context, async () => await callback(span));
+  } catch (err) {
+    span.recordError(err);
+    
+    throw err;
+  } finally {
+    span.end();
+  }
+}
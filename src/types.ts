@@ -17,6 +17,7 @@ export type Destructible = {
 export type OvernatsGlobalOptions = {
   heartbeatInterval: number;
   lockTimeout: number;
+  callTimeout: number;
 };
 
 export type SubscribeParams<P> = {
@@ -2,7 +2,8 @@ import crypto from 'node:crypto';
 import stringify from 'fast-json-stable-stringify';
 import { customAlphabet } from 'nanoid';
 import { NatsError } from 'nats';
-import { type AsyncCallback, type ErrorCallback, type Trapdoor } from './types';
+import { type Callback, type AsyncCallback, type ErrorCallback, type Trapdoor } from './types';
+import { type Clock, systemClock } from './clock';
 
 export class Mutex {
   private _queue: AsyncCallback[];
@@ -43,6 +44,101 @@ export class Mutex {
   }
 }
 
+export type LimiterOptions = {
+  trapdoor: Trapdoor;
+  concurrency?: number;
+  queue?: number;
+};
+
+export class Limiter {
+  private _trapdoor: Trapdoor;
+  private _concurrency: number;
+  private _limit: number;
+  private _active: number;
+  private _queue: AsyncCallback[];
+  private _idle: Callback[];
+  
+  constructor(options: LimiterOptions) {
+    const {
+      trapdoor,
+      concurrency = 1,
+      queue = Infinity,
+    } = options;
+    
+    this._trapdoor = trapdoor;
+    this._concurrency = concurrency;
+    this._limit = queue;
+    this._active = 0;
+    this._queue = [];
+    this._idle = [];
+    this._done = this._done.bind(this);
+  }
+  
+  private _run(callback: AsyncCallback): void {
+    this._active++;
+    callback()
+      .catch(err => {
+        // a failing trapdoor has nowhere left to report to, but must not
+        // keep the slot taken
+        try {
+          this._trapdoor.uncaughtException(err);
+        } catch {}
+      })
+      .then(this._done)
+    ;
+  }
+  
+  private _done(): void {
+    this._active--;
+    
+    const next = this._queue.shift();
+    if (next) {
+      this._run(next);
+      return;
+    }
+    
+    if (this._active == 0) {
+      for (const resolve of this._idle.splice(0)) {
+        resolve();
+      }
+    }
+  }
+  
+  public get active(): number {
+    return this._active;
+  }
+  
+  public get pending(): number {
+    return this._queue.length;
+  }
+  
+  // returns false without running the callback when both all the slots and
+  // the queue are taken
+  public schedule(callback: AsyncCallback): boolean {
+    if (this._active < this._concurrency) {
+      this._run(callback);
+      
+      return true;
+    }
+    
+    if (this._queue.length < this._limit) {
+      this._queue.push(callback);
+      
+      return true;
+    }
+    
+    return false;
+  }
+  
+  public async destroy(): Promise<void> {
+    if (this._active == 0) {
+      return;
+    }
+    
+    await new Promise<void>(resolve => this._idle.push(resolve));
+  }
+}
+
 export function hashOf(value: unknown | undefined): string {
   if (value == undefined) {
     return '00000000000000000000000000000000';
@@ -143,6 +239,8 @@ export async function tryWithFallback<T>(
   }
 }
 
+// the failure of the callback is what the caller needs to see, so a cleanup
+// failing after it does not replace it
 export async function anyway<T>(
   callback: () => Promise<T>,
   cleanup: () => Promise<void>,
@@ -152,7 +250,7 @@ export async function anyway<T>(
   try {
     result = await callback();
   } catch (err) {
-    await cleanup();
+    await cleanup().catch(() => {});
     
     throw err;
   }
@@ -166,6 +264,7 @@ export type RetryOptions = {
   when: (err: unknown, retry: number) => boolean;
   retries: number;
   signal?: AbortSignal;
+  clock: Clock;
   minDelay: number;
   maxDelay: number;
   factor: number;
@@ -180,53 +279,89 @@ export async function retry<T>(
     when = () => true,
     retries = 10,
     signal,
+    clock = systemClock,
     minDelay = 250,
     maxDelay = 120_000,
     factor = 1.5,
     jitter = 0.1,
   } = options ?? {};
   
+  // an aborted signal does not get even the first attempt
+  signal?.throwIfAborted();
+  
   let abort: ErrorCallback | undefined = undefined;
   let alive = true;
   let retry = 0;
   
-  if (signal) {
-    signal.addEventListener('abort', event => {
-      if (abort) {
-        abort(signal.reason ?? new Error('aborted'));
-      }
-      
-      alive = false;
-    });
-  }
+  const stop = () => {
+    if (abort) {
+      abort(signal?.reason ?? new Error('aborted'));
+    }
+    
+    alive = false;
+  };
+  
+  signal?.addEventListener('abort', stop, { once: true });
   
-  while (true) {
-    try {
-      return await callback();
-    } catch (err) {
-      if (alive && retry < retries && when(err, retry)) {
-        const raw = minDelay * Math.pow(factor, retry);
-        const limited = Math.min(raw, maxDelay);
-        const jittered = limited * (1 - jitter + Math.random() * (jitter * 2));
-        const delay = Math.round(jittered);
-        
-        await new Promise<void>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            abort = undefined;
-            resolve();
-          }, delay);
+  try {
+    while (true) {
+      try {
+        return await callback();
+      } catch (err) {
+        if (alive && retry < retries && when(err, retry)) {
+          const raw = minDelay * Math.pow(factor, retry);
+          const limited = Math.min(raw, maxDelay);
+          const jittered = limited * (1 - jitter + Math.random() * (jitter * 2));
+          const delay = Math.round(jittered);
+          
+          await new Promise<void>((resolve, reject) => {
+            const timeout = clock.setTimeout(() => {
+              abort = undefined;
+              resolve();
+            }, delay);
+            
+            abort = err => {
+              clock.clearTimeout(timeout);
+              reject(err);
+            };
+          });
           
-          abort = err => {
-            clearTimeout(timeout);
-            reject(err);
-          };
-        });
-        
-        retry++;
-      } else {
-        throw err;
+          retry++;
+        } else {
+          throw err;
+        }
       }
     }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+  }
+}
+
+export async function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return await promise;
+  }
+  
+  signal.throwIfAborted();
+  
+  // the promise is abandoned on abort, its late failure is of no interest
+  promise.catch(() => {});
+  
+  let fail: ErrorCallback = () => {};
+  
+  const aborted = new Promise<never>((resolve, reject) => {
+    fail = reject;
+  });
+  const abort = () => {
+    fail(signal.reason);
+  };
+  
+  signal.addEventListener('abort', abort, { once: true });
+  
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', abort);
   }
 }
 
@@ -243,3 +378,40 @@ export type CompareCallback<T> = (a: T, b: T) => boolean;
 export function defaultCompare<T>(a: T, b: T): boolean {
   return hashOf(a) == hashOf(b);
 }
+
+export type SignalLink = {
+  signal: AbortSignal;
+  unlink: Callback;
+};
+
+// aborts with the first of the signals to abort, the way AbortSignal.any does
+// on newer node versions; the link comes off the signals once it aborts, and
+// unlink takes it off earlier when it outlives its use
+export function linkSignals(signals: AbortSignal[]): SignalLink {
+  const controller = new AbortController();
+  
+  const aborted = signals.find(signal => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    
+    return { signal: controller.signal, unlink: () => {} };
+  }
+  
+  const listeners = signals.map(signal => {
+    const abort = () => {
+      unlink();
+      controller.abort(signal.reason);
+    };
+    
+    signal.addEventListener('abort', abort, { once: true });
+    
+    return { signal, abort };
+  });
+  const unlink = () => {
+    for (const { signal, abort } of listeners) {
+      signal.removeEventListener('abort', abort);
+    }
+  };
+  
+  return { signal: controller.signal, unlink };
+}
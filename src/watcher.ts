@@ -1,7 +1,11 @@
-import { type QueuedIterator, type KvEntry, type KV } from 'nats';
+import { type KvEntry } from 'nats';
 import { type Callback } from './types';
+import { type KvStore, type KvWatch } from './connection';
 import { OvernatsError } from './errors';
+import { Mutex } from './utils';
 import { type Listener } from './listener';
+import { type Logger } from './logger';
+import { type HealthReporter } from './health';
 import { type Backend } from './backend';
 
 export type UpdatePut<T> = {
@@ -25,41 +29,59 @@ export type WatcherCallback<T> = (update: Update<T>) => Promise<void>;
 
 export type WatcherOptions<T> = {
   backend: Backend;
-  kv: KV,
+  bucket: string;
+  kv: KvStore,
   filter?: string;
   callback: WatcherCallback<T>;
 };
 
 export class Watcher<T> {
   private _backend: Backend;
-  private _kv: KV;
+  private _logger: Logger;
+  private _kv: KvStore;
   private _filter?: string;
   private _callback: WatcherCallback<T>;
-  private _updates!: QueuedIterator<KvEntry>;
+  private _mutex: Mutex;
+  private _online: boolean;
+  private _revision: number;
+  private _destroyed: boolean;
+  private _updates!: KvWatch;
   private _updatesListener!: Listener<KvEntry>;
+  private _reconnectOff!: Callback;
+  private _health: HealthReporter;
   
   constructor(options: WatcherOptions<T>) {
     const {
       backend,
+      bucket,
       kv,
       filter,
       callback,
     } = options;
     
     this._backend = backend;
+    this._logger = backend.logger.child({ bucket, key: filter ?? '>' });
+    this._health = backend.health.reporter(`watcher.${bucket}.${filter ?? '>'}`);
     this._kv = kv;
     this._filter = filter;
     this._callback = callback;
+    this._mutex = new Mutex();
+    this._online = false;
+    this._revision = 0;
+    this._destroyed = false;
   }
   
-  public async init(): Promise<void> {
-    let online = false;
+  private async _watch(): Promise<void> {
     let resume: Callback | undefined;
     
     this._updates = await this._kv.watch({
       key: this._filter,
+      resumeFromRevision: (this._revision > 0) ? this._revision + 1 : undefined,
       initializedFn: () => {
-        online = true;
+        this._online = true;
+        this._health.set('ok');
+        
+        this._logger.debug('watcher online', { revision: this._revision });
         
         if (resume) {
           resume();
@@ -68,25 +90,64 @@ export class Watcher<T> {
     });
     this._updatesListener = await this._backend.listen('watcher', this._updates, async entry => {
       try {
-        const update = entryToUpdate<T>(this._backend, entry, online);
+        const update = entryToUpdate<T>(this._backend, entry, this._online);
         
         await this._callback(update);
       } catch (err) {
+        this._logger.warn('watcher callback failed', { revision: entry.revision, err });
+        
         throw new OvernatsError('watch error', { cause: err });
+      } finally {
+        this._revision = entry.revision;
       }
     });
     
-    if (!online) {
+    if (!this._online) {
       await new Promise<void>(resolve => {
         resume = resolve;
       });
     }
   }
   
-  public async destroy(): Promise<void> {
+  private async _stop(): Promise<void> {
     this._updates.stop();
     await this._updatesListener.destroy();
   }
+  
+  // the watch is restarted right after the last delivered revision, so that
+  // updates made while disconnected are neither lost nor repeated
+  private async _resync(): Promise<void> {
+    await this._mutex.lock(async () => {
+      if (this._destroyed) {
+        return;
+      }
+      
+      this._logger.info('watcher resyncing', { revision: this._revision });
+      this._health.set('starting', 'resyncing');
+      
+      await this._stop();
+      await this._watch();
+    });
+  }
+  
+  public async init(): Promise<void> {
+    await this._watch();
+    
+    this._reconnectOff = this._backend.on('reconnect', async () => {
+      await this._resync();
+    });
+  }
+  
+  public async destroy(): Promise<void> {
+    this._reconnectOff();
+    
+    await this._mutex.lock(async () => {
+      this._destroyed = true;
+      
+      await this._stop();
+      await this._health.destroy();
+    });
+  }
 }
 
 function entryToUpdate<T>(backend: Backend, entry: KvEntry, online: boolean): Update<T> {
@@ -96,7 +157,7 @@ function entryToUpdate<T>(backend: Backend, entry: KvEntry, online: boolean): Up
       revision: entry.revision,
       online,
       key: entry.key,
-      value: backend.decode(entry.value) as T,
+      value: backend.decodeValue(entry.value) as T,
     };
   }
   